@@ -0,0 +1,407 @@
+import { Field, FieldArray, FieldGroup } from './Field'
+import { FieldStatus } from './types'
+import { Validators } from './validators'
+
+const schema = {
+  name: { path: 'name', validators: Validators.required },
+  address: {
+    city: { path: 'city', default: 'Astoria' },
+    zipcode: { path: 'zip', validators: [Validators.minLength(5), Validators.maxLength(5)] },
+  },
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve))
+
+describe('FieldGroup', () => {
+  it('Should model nested schemas with their defaults and validators', () => {
+    const group = new FieldGroup(schema)
+
+    expect(group.fields.address).toBeInstanceOf(FieldGroup)
+    expect(group.value).toEqual({
+      name: undefined,
+      address: { city: 'Astoria', zipcode: undefined },
+    })
+    expect(group.fields.name.errors).toEqual({ required: true })
+    expect(group.status).toBe(FieldStatus.INVALID)
+  })
+
+  it('Should validate on every update and roll statuses up', () => {
+    const group = new FieldGroup(schema)
+    const address = group.fields.address as FieldGroup
+
+    group.setValue({ name: 'Miro', address: { city: 'Astoria', zipcode: '111' } })
+
+    expect(address.fields.zipcode.errors).toEqual({ minlength: { minLength: 5, actual: 3 } })
+    expect(address.invalid).toBe(true)
+    expect(group.invalid).toBe(true)
+
+    address.fields.zipcode.setValue('11103')
+
+    expect(address.valid).toBe(true)
+    expect(group.valid).toBe(true)
+  })
+
+  it('Should patch, reset and reject incomplete values', () => {
+    const group = new FieldGroup(schema)
+
+    group.patchValue({ name: 'Miro', address: { zipcode: '11103' }, unknown: true })
+
+    expect(group.value).toEqual({ name: 'Miro', address: { city: 'Astoria', zipcode: '11103' } })
+    expect(group.valid).toBe(true)
+    expect(() => group.setValue({ name: 'Ana' })).toThrow(
+      'Missing a value for the field "address".'
+    )
+    expect(() => group.setValue({ ...group.value, age: 3 })).toThrow('There is no field "age".')
+
+    group.reset({ name: 'Ana' })
+
+    expect(group.value).toEqual({ name: 'Ana', address: { city: 'Astoria', zipcode: undefined } })
+  })
+
+  it('Should emit value and status changes', () => {
+    const group = new FieldGroup(schema)
+    const values: any[] = []
+    const statuses: FieldStatus[] = []
+    const subscription = group.valueChanges.subscribe((value) => values.push(value))
+
+    group.statusChanges.subscribe((status) => statuses.push(status))
+    group.fields.name.setValue('Miro')
+    group.patchValue({ name: '' }, { emitEvent: false })
+    subscription.unsubscribe()
+    group.fields.name.setValue('Ana')
+
+    expect(values).toEqual([{ name: 'Miro', address: { city: 'Astoria', zipcode: undefined } }])
+    expect(statuses).toEqual([FieldStatus.VALID, FieldStatus.VALID])
+  })
+
+  it('Should pass the values of the group to its validators', () => {
+    const group = new FieldGroup(
+      { password: 'password', confirmation: 'confirmation' },
+      (value: Record<string, any>) =>
+        value.password === value.confirmation ? null : { mismatch: true }
+    )
+
+    group.fields.confirmation.setValidators(Validators.requiredIf('password'))
+    group.setValue({ password: 'secret', confirmation: '' })
+
+    expect(group.errors).toEqual({ mismatch: true })
+    expect(group.fields.confirmation.errors).toEqual({ required: true })
+  })
+
+  it('Should validate fields again when a sibling changes', () => {
+    const group = new FieldGroup({
+      method: { path: 'method', default: 'email' },
+      email: { path: 'email', validators: Validators.requiredIf('method', 'email') },
+    })
+    const statuses: FieldStatus[] = []
+
+    expect(group.fields.email.errors).toEqual({ required: true })
+
+    group.fields.email.statusChanges.subscribe((status) => statuses.push(status))
+    group.fields.method.setValue('phone')
+
+    expect(group.fields.email.errors).toBe(null)
+    expect(group.valid).toBe(true)
+
+    group.fields.method.setValue('email')
+
+    expect(group.fields.email.errors).toEqual({ required: true })
+    expect(group.invalid).toBe(true)
+    expect(statuses).toEqual([FieldStatus.VALID, FieldStatus.INVALID])
+  })
+})
+
+describe('Field', () => {
+  it('Should run async validators once the sync ones pass', async () => {
+    const unique = async (value: string) => (value === 'taken' ? { unique: true } : null)
+    const group = new FieldGroup({ username: 'username' })
+    const username = group.fields.username as Field
+    const statuses: FieldStatus[] = []
+
+    username.setAsyncValidators(unique)
+    username.setValidators(Validators.required)
+    group.statusChanges.subscribe((status) => statuses.push(status))
+
+    username.setValue('')
+    username.setValue('taken')
+
+    expect(group.pending).toBe(true)
+
+    await tick()
+
+    expect(username.errors).toEqual({ unique: true })
+    expect(group.status).toBe(FieldStatus.INVALID)
+
+    username.setValue('free')
+    await tick()
+
+    expect(username.valid).toBe(true)
+    expect(statuses).toEqual([
+      FieldStatus.INVALID,
+      FieldStatus.PENDING,
+      FieldStatus.INVALID,
+      FieldStatus.PENDING,
+      FieldStatus.VALID,
+    ])
+  })
+
+  it('Should discard stale results and abort superseded runs', async () => {
+    const pending: Record<string, (errors: any) => void> = {}
+    const signals: Record<string, AbortSignal> = {}
+    const field = new Field('')
+
+    field.setAsyncValidators((value: string, _context, signal) => {
+      signals[value] = signal
+
+      return new Promise((resolve) => (pending[value] = resolve))
+    })
+    field.setValue('slow')
+    field.setValue('fast')
+    pending.fast(null)
+    await tick()
+
+    expect(field.status).toBe(FieldStatus.VALID)
+
+    pending.slow({ taken: true })
+    await tick()
+
+    expect(field.status).toBe(FieldStatus.VALID)
+    expect(field.errors).toBe(null)
+    expect(signals.slow.aborted).toBe(true)
+    expect(signals.fast.aborted).toBe(false)
+  })
+
+  it('Should debounce async validators and report rejections', async () => {
+    const checked: string[] = []
+    const field = new Field('', null, async (value: string) => {
+      checked.push(value)
+
+      if (value === 'boom') throw new Error('Service unavailable')
+
+      return null
+    })
+
+    field.debounce = 20
+    field.setValue('M')
+    field.setValue('Mi')
+    field.setValue('Miro')
+
+    expect(field.pending).toBe(true)
+
+    await new Promise((resolve) => setTimeout(resolve, 40))
+
+    expect(checked).toEqual(['', 'Miro'])
+    expect(field.valid).toBe(true)
+
+    field.debounce = 0
+    field.setValue('boom')
+    await tick()
+
+    expect(field.errors).toEqual({ async: { error: new Error('Service unavailable') } })
+    expect(field.invalid).toBe(true)
+  })
+
+  it('Should reset to the value it was created with', () => {
+    const field = new Field({ value: 'Miro' }, Validators.maxLength(4))
+
+    field.setValue('Miroslav')
+
+    expect(field.invalid).toBe(true)
+
+    field.reset()
+
+    expect(field.value).toBe('Miro')
+    expect(field.valid).toBe(true)
+  })
+})
+
+describe('FieldArray', () => {
+  const order = {
+    customer: 'customer',
+    lines: {
+      path: 'lines',
+      each: {
+        sku: { path: 'sku', validators: Validators.required },
+        qty: { path: 'qty', default: 1 },
+      },
+      validators: [Validators.minItems(1), Validators.maxItems(3), Validators.uniqueItems('sku')],
+      default: [{ sku: 'a1' }],
+    },
+    tags: { path: 'tags', type: 'array' as const },
+  }
+
+  it('Should be created from schema entries mapping to arrays', () => {
+    const group = new FieldGroup(order)
+    const lines = group.fields.lines as FieldArray
+
+    expect(lines).toBeInstanceOf(FieldArray)
+    expect(lines.at(0)).toBeInstanceOf(FieldGroup)
+    expect(group.fields.tags).toBeInstanceOf(FieldArray)
+    expect(group.value).toEqual({ customer: undefined, lines: [{ sku: 'a1', qty: 1 }], tags: [] })
+    expect(group.valid).toBe(true)
+  })
+
+  it('Should add, move and remove items', () => {
+    const lines = new FieldGroup(order).fields.lines as FieldArray
+    const values: any[] = []
+
+    lines.valueChanges.subscribe((value) => values.push(value.map((line: any) => line.sku)))
+    lines.push({ sku: 'b2', qty: 2 })
+    lines.insert(0, { sku: 'c3' })
+    lines.move(0, 2)
+    lines.removeAt(1)
+
+    expect(values).toEqual([
+      ['a1', 'b2'],
+      ['c3', 'a1', 'b2'],
+      ['a1', 'b2', 'c3'],
+      ['a1', 'c3'],
+    ])
+    expect(lines.length).toBe(2)
+    expect(lines.value).toEqual([
+      { sku: 'a1', qty: 1 },
+      { sku: 'c3', qty: 1 },
+    ])
+  })
+
+  it('Should aggregate the statuses of its items and run array validators', () => {
+    const group = new FieldGroup(order)
+    const lines = group.fields.lines as FieldArray
+
+    lines.push({ qty: 2 })
+
+    expect((lines.at(1) as FieldGroup).fields.sku.errors).toEqual({ required: true })
+    expect(lines.errors).toBe(null)
+    expect(group.invalid).toBe(true)
+
+    lines.setValue(['a1', 'b2', 'a1', 'c3'].map((sku) => ({ sku, qty: 1 })))
+
+    expect(lines.errors).toEqual({
+      maxitems: { maxItems: 3, actual: 4 },
+      uniqueitems: { duplicates: [2] },
+    })
+
+    lines.clear()
+
+    expect(lines.errors).toEqual({ minitems: { minItems: 1, actual: 0 } })
+
+    lines.reset()
+
+    expect(lines.value).toEqual([{ sku: 'a1', qty: 1 }])
+    expect(group.valid).toBe(true)
+  })
+
+  it('Should hold Fields by default', () => {
+    const tags = new FieldArray([new Field('a')], Validators.uniqueItems())
+
+    tags.push('a')
+
+    expect(tags.at(1)).toBeInstanceOf(Field)
+    expect(tags.errors).toEqual({ uniqueitems: { duplicates: [1] } })
+
+    tags.patchValue(['b', 'c', 'd'])
+
+    expect(tags.value).toEqual(['b', 'c'])
+    expect(tags.valid).toBe(true)
+  })
+})
+
+describe('Field state', () => {
+  const schema = {
+    name: { path: '_firstName', validators: Validators.required },
+    address: { city: 'address.city', zipcode: 'address.zipcode' },
+    jobs: { path: 'jobs', each: { title: 'title' } },
+  }
+  const source = {
+    _firstName: 'Miro',
+    address: { city: 'Astoria', zipcode: 11103 },
+    jobs: [{ title: 'cook' }],
+  }
+
+  it('Should propagate dirty and touched states to the ancestors', () => {
+    const group = FieldGroup.fromSource(schema, source)
+    const address = group.fields.address as FieldGroup
+
+    expect(group.pristine).toBe(true)
+
+    address.fields.city.setValue('Queens')
+
+    expect(group.pristine).toBe(true)
+
+    address.fields.city.markAsDirty()
+    address.fields.zipcode.markAsTouched({ onlySelf: true })
+
+    expect(address.dirty).toBe(true)
+    expect(group.dirty).toBe(true)
+    expect(address.untouched).toBe(true)
+
+    address.fields.zipcode.markAsTouched()
+    address.fields.city.markAsPristine()
+
+    expect(group.touched).toBe(true)
+    expect(group.pristine).toBe(true)
+
+    group.markAsUntouched()
+
+    expect(address.fields.zipcode.touched).toBe(false)
+  })
+
+  it('Should leave the dirty state and snapshot alone on programmatic updates', () => {
+    const field = new Field('Miro')
+
+    field.setValue('Ana')
+
+    expect(field.dirty).toBe(false)
+
+    field.reset()
+
+    expect(field.value).toBe('Miro')
+
+    field.reset('Ana')
+    field.setValue('Miro')
+    field.markAsDirty()
+    field.reset()
+
+    expect(field.value).toBe('Ana')
+    expect(field.pristine).toBe(true)
+  })
+
+  it('Should patch the changed values and reset to the mapped snapshot', () => {
+    const group = FieldGroup.fromSource(schema, source)
+    const address = group.fields.address as FieldGroup
+    const jobs = group.fields.jobs as FieldArray
+
+    expect(group.value).toEqual({
+      name: 'Miro',
+      address: { city: 'Astoria', zipcode: 11103 },
+      jobs: [{ title: 'cook' }],
+    })
+    expect(group.getDirtyValues()).toEqual({})
+
+    address.fields.city.setValue('Queens')
+    address.fields.city.markAsDirty()
+    jobs.push({ title: 'baker' })
+    jobs.markAsDirty()
+
+    expect(group.getDirtyValues()).toEqual({
+      address: { city: 'Queens' },
+      jobs: [{ title: 'cook' }, { title: 'baker' }],
+    })
+
+    group.reset()
+
+    expect(group.value).toEqual({
+      name: 'Miro',
+      address: { city: 'Astoria', zipcode: 11103 },
+      jobs: [{ title: 'cook' }],
+    })
+    expect(group.pristine).toBe(true)
+
+    group.reset({ name: 'Ana' })
+    group.fields.name.setValue('')
+    group.reset()
+
+    expect(group.fields.name.value).toBe('Ana')
+    expect(group.valid).toBe(true)
+  })
+})
@@ -1,56 +1,84 @@
+import { EventEmitter } from './events'
+import { hookup } from '.'
 import {
   AsyncValidatorFn,
+  AsyncValidatorLike,
+  FieldSelector,
   FieldStatus,
+  FieldUpdateOptions,
   FieldValue,
+  HookupOptions,
+  MappingContext,
   Schema,
   ValidationErrors,
   ValidatorFn,
+  ValidatorLike,
 } from './types'
-import { coerceToPromise, getFieldValue } from './utils'
+import {
+  castArray,
+  coerceToPromise,
+  getFieldValue,
+  GROUP_ASYNC_VALIDATORS,
+  GROUP_VALIDATORS,
+  hasOwn,
+  isFieldSelector,
+  isGroupValidatorKey,
+  isPlainObject,
+} from './utils'
 import { Validators } from './validators'
 
 /**
- * Creates validator function by combining provided validators.
+ * Creates validator function by combining provided validators, resolving named references.
  */
-function coerceToValidator(validator: ValidatorFn | ValidatorFn[] | null): ValidatorFn | null {
-  return Array.isArray(validator) ? Validators.composeValidators(validator) : validator || null
+function coerceToValidator(
+  validator: ValidatorFn | string | ValidatorLike[] | null
+): ValidatorFn | null {
+  return typeof validator === 'function'
+    ? validator
+    : Validators.composeValidators(Validators.resolveAll(validator))
 }
 
 /**
- * Creates async validator function by combining provided async validators.
+ * Creates async validator function by combining provided async validators, resolving named
+ * references.
  */
 function coerceToAsyncValidator(
-  asyncValidator?: AsyncValidatorFn | AsyncValidatorFn[] | null
+  asyncValidator?: AsyncValidatorFn | string | AsyncValidatorLike[] | null
 ): AsyncValidatorFn | null {
-  return Array.isArray(asyncValidator)
-    ? Validators.composeAsyncValidators(asyncValidator)
-    : asyncValidator || null
+  return typeof asyncValidator === 'function'
+    ? asyncValidator
+    : Validators.composeAsyncValidators(Validators.resolveAllAsync(asyncValidator))
 }
 
-export class FieldGroup {
-  get schema() {
-    return this._schema
-  }
-  private _schema: Schema
+/**
+ * The state and validation logic shared by `Field`, `FieldGroup` and `FieldArray`.
+ */
+export abstract class AbstractField {
+  status: FieldStatus = FieldStatus.VALID
 
-  fields: Record<string, Field>
+  readonly errors: ValidationErrors | null = null
 
-  constructor(schema: Schema) {
-    this._schema = schema
+  /**
+   * Whether the user hasn't changed the value since the field was created or reset. Updating the
+   * value doesn't make the field dirty, so that only the fields marked by `markAsDirty` are.
+   */
+  pristine = true
 
-    this.fields = Object.entries(this._schema).reduce((agg, [k, v]) => {
-      agg[k] = new Field(v)
-      return agg
-    }, {})
-  }
+  /**
+   * Whether the user has interacted with the field, as marked by `markAsTouched`.
+   */
+  touched = false
 
-  update(shouldUpdate?: boolean) {
-    console.log('should update', shouldUpdate)
-  }
-}
+  /**
+   * Emits the value every time it's updated through `setValue`, `patchValue` or `reset`, or
+   * through those of a child.
+   */
+  readonly valueChanges = new EventEmitter<any>()
 
-export class Field {
-  status: FieldStatus = FieldStatus.VALID
+  /**
+   * Emits the status every time it's recalculated, including when async validators resolve.
+   */
+  readonly statusChanges = new EventEmitter<FieldStatus>()
 
   /**
    * Contains the result of merging synchronous validators into a single validator function
@@ -76,7 +104,7 @@ export class Field {
    *
    * @internal
    */
-  private _rawValidators: ValidatorFn | ValidatorFn[] | null
+  protected _rawValidators: ValidatorFn | string | ValidatorLike[] | null
 
   /**
    * Asynchronous validators as they were provided:
@@ -87,54 +115,112 @@ export class Field {
    *
    * @internal
    */
-  private _rawAsyncValidators: AsyncValidatorFn | AsyncValidatorFn[] | null
+  protected _rawAsyncValidators: AsyncValidatorFn | string | AsyncValidatorLike[] | null
 
-  set value(value: any) {
-    this._value = value
-  }
-  get value() {
-    return this._value
-  }
-  private _value: any
-
-  private _parent: FieldGroup
+  protected _parent: AbstractField | null = null
 
   protected _hasOwnPendingAsyncValidator = false
 
-  readonly errors: ValidationErrors | null
+  /**
+   * Milliseconds to wait after the last update before running the async validators, so that
+   * quick successive updates only run them once. Defaults to 0, running them right away.
+   */
+  debounce = 0
+
+  /**
+   * Incremented by every run of the async validators, so that the results of superseded runs
+   * are discarded.
+   *
+   * @internal
+   */
+  private _asyncValidationVersion = 0
+
+  /**
+   * Aborts the signal passed to the async validators of the current run.
+   *
+   * @internal
+   */
+  private _asyncValidationController: AbortController | null = null
 
   constructor(
-    value: FieldValue,
-    validators?: ValidatorFn | ValidatorFn[],
-    asyncValidators?: AsyncValidatorFn | AsyncValidatorFn[] | null
+    validators?: ValidatorFn | string | ValidatorLike[] | null,
+    asyncValidators?: AsyncValidatorFn | string | AsyncValidatorLike[] | null
   ) {
-    this.value = getFieldValue(value)
+    this.setValidators(validators || null)
+    this.setAsyncValidators(asyncValidators || null)
+  }
+
+  /**
+   * Assigns the value without validating it or notifying anyone, unlike `setValue`.
+   */
+  abstract get value(): any
+  abstract set value(value: any)
+
+  /**
+   * Replaces the value, then validates the field and its ancestors. Being programmatic, the update
+   * neither makes the field dirty nor changes the snapshot that `reset` restores.
+   */
+  abstract setValue(value: any, options?: FieldUpdateOptions): void
+
+  /**
+   * Updates the parts of the value that are given, then validates the field and its ancestors.
+   */
+  abstract patchValue(value: any, options?: FieldUpdateOptions): void
+
+  /**
+   * Restores the snapshot of the field, i.e. the value it was created with or last reset to, and
+   * marks it as pristine and untouched. A `value` given becomes the new snapshot.
+   */
+  abstract reset(value?: any, options?: FieldUpdateOptions): void
 
-    this._rawValidators = validators
-    this._rawAsyncValidators = asyncValidators
-    this._composedValidatorFn = coerceToValidator(this._rawValidators)
-    this._composedAsyncValidatorFn = coerceToAsyncValidator(this._rawAsyncValidators)
+  /**
+   * The fields the field is made of, whose statuses roll up into its own.
+   */
+  protected abstract _children(): AbstractField[]
 
-    // const handler: ProxyHandler<IValidation> = {
-    //   get: (object, prop: ValidatorsKeys & keyof IValidation) => {
-    //     if (prop in object) {
-    //       return object[prop]
-    //     } else if (validators.has(prop)) {
-    //       return validators.get(prop)
-    //     } else {
-    //       throw new Error(
-    //         `The validator ${prop}() does not exist. Did you forget to call Validation.addValidator(name, validator)`
-    //       )
-    //     }
-    //   },
-    // }
+  /**
+   * The context the validators of the field and of its children receive, whose `target` holds
+   * the value of the field.
+   */
+  get context(): MappingContext | undefined {
+    const value = this.value
+
+    return { context: undefined, source: value, root: this.root.value, path: [], target: value }
   }
 
-  // TODO: implement this
-  updateValue() {
-    // update the value
-    // run all validators
-    // emit update event using EventEmitter
+  get parent(): AbstractField | null {
+    return this._parent
+  }
+
+  /**
+   * The topmost ancestor of the field, or the field itself.
+   */
+  get root(): AbstractField {
+    return this._parent ? this._parent.root : this
+  }
+
+  /**
+   * Whether the field was marked by `markAsDirty` since it was created or reset, regardless of how
+   * its value compares to the snapshot.
+   */
+  get dirty(): boolean {
+    return !this.pristine
+  }
+
+  get untouched(): boolean {
+    return !this.touched
+  }
+
+  get valid(): boolean {
+    return this.status === FieldStatus.VALID
+  }
+
+  get invalid(): boolean {
+    return this.status === FieldStatus.INVALID
+  }
+
+  get pending(): boolean {
+    return this.status === FieldStatus.PENDING
   }
 
   /**
@@ -165,7 +251,7 @@ export class Field {
    * `updateValueAndValidity()` for the new validation to take effect.
    *
    */
-  setValidators(newValidator: ValidatorFn | ValidatorFn[] | null): void {
+  setValidators(newValidator: ValidatorFn | string | ValidatorLike[] | null): void {
     this._rawValidators = newValidator
     this._composedValidatorFn = coerceToValidator(newValidator)
   }
@@ -178,7 +264,7 @@ export class Field {
    * `updateValueAndValidity()` for the new validation to take effect.
    *
    */
-  setAsyncValidators(newValidator: AsyncValidatorFn | AsyncValidatorFn[] | null): void {
+  setAsyncValidators(newValidator: AsyncValidatorFn | string | AsyncValidatorLike[] | null): void {
     this._rawAsyncValidators = newValidator
     this._composedAsyncValidatorFn = coerceToAsyncValidator(newValidator)
   }
@@ -205,37 +291,597 @@ export class Field {
     this.asyncValidator = null
   }
 
+  /**
+   * Sets the errors of the field, recalculating its status and those of its ancestors.
+   */
   setErrors(errors: ValidationErrors | null, opts: { emitEvent?: boolean } = {}): void {
     ;(this as { errors: ValidationErrors | null }).errors = errors
+    this._updateStatus(opts.emitEvent !== false)
+  }
+
+  /**
+   * Runs the validators of the field, starting its async validators when the synchronous ones
+   * pass, then emits the value and status and updates the parent unless `onlySelf` is set.
+   * Descendants are validated again first, as their context holds the value of the field.
+   */
+  updateValueAndValidity(options: FieldUpdateOptions = {}): void {
+    this._children().forEach((child) => child._revalidate(options.emitEvent))
+    this._updateOwnValidity(options)
+  }
+
+  private _updateOwnValidity(options: FieldUpdateOptions): void {
+    this._cancelAsyncValidation()
+    ;(this as { errors: ValidationErrors | null }).errors = this._runValidator()
+    this.status = this._calculateStatus()
+
+    if (this.status !== FieldStatus.INVALID) {
+      this._runAsyncValidator(options.emitEvent)
+    }
+
+    if (options.emitEvent !== false) {
+      this.valueChanges.emit(this.value)
+      this.statusChanges.emit(this.status)
+    }
+
+    if (this._parent && !options.onlySelf) {
+      this._parent._updateFromChild(this, options)
+    }
+  }
+
+  /**
+   * Updates the field after the value of `changed`, one of its children, did, validating its
+   * other children again for the validators that depend on siblings, such as `requiredIf`.
+   */
+  private _updateFromChild(changed: AbstractField, options: FieldUpdateOptions): void {
+    this._children().forEach((child) => {
+      if (child !== changed) child._revalidate(options.emitEvent)
+    })
+    this._updateOwnValidity(options)
+  }
+
+  /**
+   * Validates the field and its descendants again without emitting their unchanged values, only
+   * the statuses that change.
+   */
+  private _revalidate(emitEvent?: boolean): void {
+    const status = this.status
+
+    this._children().forEach((child) => child._revalidate(emitEvent))
+    this._updateOwnValidity({ onlySelf: true, emitEvent: false })
+
+    if (emitEvent !== false && this.status !== status) {
+      this.statusChanges.emit(this.status)
+    }
+  }
+
+  /**
+   * Marks the field as changed by the user, along with its ancestors unless `onlySelf` is set.
+   */
+  markAsDirty(options: Pick<FieldUpdateOptions, 'onlySelf'> = {}): void {
+    this.pristine = false
+
+    if (this._parent && !options.onlySelf) {
+      this._parent.markAsDirty(options)
+    }
+  }
+
+  /**
+   * Marks the field and its descendants as pristine, then its ancestors that no longer have any
+   * dirty child unless `onlySelf` is set.
+   */
+  markAsPristine(options: Pick<FieldUpdateOptions, 'onlySelf'> = {}): void {
+    this.pristine = true
+    this._children().forEach((child) => child.markAsPristine({ onlySelf: true }))
+
+    if (this._parent && !options.onlySelf) {
+      this._parent._updatePristine()
+    }
+  }
+
+  /**
+   * Marks the field as interacted with, along with its ancestors unless `onlySelf` is set.
+   */
+  markAsTouched(options: Pick<FieldUpdateOptions, 'onlySelf'> = {}): void {
+    this.touched = true
+
+    if (this._parent && !options.onlySelf) {
+      this._parent.markAsTouched(options)
+    }
+  }
+
+  /**
+   * Marks the field and its descendants as untouched, then its ancestors that no longer have
+   * any touched child unless `onlySelf` is set.
+   */
+  markAsUntouched(options: Pick<FieldUpdateOptions, 'onlySelf'> = {}): void {
+    this.touched = false
+    this._children().forEach((child) => child.markAsUntouched({ onlySelf: true }))
+
+    if (this._parent && !options.onlySelf) {
+      this._parent._updateTouched()
+    }
+  }
+
+  /**
+   * The parts of the value the user changed, as a patch of the snapshot restored by `reset`:
+   * groups only hold their dirty fields, while arrays are replaced as a whole.
+   */
+  getDirtyValues(): any {
+    return this.value
+  }
+
+  /**
+   * Sets the parent context of the field
+   */
+  setParent(parent: AbstractField | null): void {
+    this._parent = parent
+  }
+
+  /**
+   * Runs the synchronous validators of the field and of its descendants, setting their errors
+   * and statuses without notifying anyone. Returns the errors of the field, while those of each
+   * descendant are set on the descendant.
+   */
+  validate(): ValidationErrors | null {
+    this._children().forEach((child) => child.validate())
+
+    const errors = this._runValidator()
+
+    ;(this as { errors: ValidationErrors | null }).errors = errors
+    this.status = this._calculateStatus()
+
+    return errors
+  }
+
+  protected _updatePristine(): void {
+    this.pristine = !this._children().some((child) => child.dirty)
+
+    if (this._parent) {
+      this._parent._updatePristine()
+    }
+  }
+
+  protected _updateTouched(): void {
+    this.touched = this._children().some((child) => child.touched)
+
     if (this._parent) {
-      this._parent.update(opts.emitEvent !== false)
+      this._parent._updateTouched()
+    }
+  }
+
+  protected _anyChildHasStatus(status: FieldStatus): boolean {
+    return this._children().some((child) => child.status === status)
+  }
+
+  protected _calculateStatus(): FieldStatus {
+    if (this.errors) return FieldStatus.INVALID
+
+    if (this._hasOwnPendingAsyncValidator || this._anyChildHasStatus(FieldStatus.PENDING)) {
+      return FieldStatus.PENDING
+    }
+
+    return this._anyChildHasStatus(FieldStatus.INVALID) ? FieldStatus.INVALID : FieldStatus.VALID
+  }
+
+  /**
+   * Recalculates the status of the field and of its ancestors, without running validators.
+   */
+  protected _updateStatus(emitEvent: boolean): void {
+    this.status = this._calculateStatus()
+
+    if (emitEvent) {
+      this.statusChanges.emit(this.status)
+    }
+
+    if (this._parent) {
+      this._parent._updateStatus(emitEvent)
     }
   }
 
   protected _runValidator(): ValidationErrors | null {
-    return this.validator ? this.validator(this) : null
+    return this.validator ? this.validator(this.value, this.context) : null
   }
 
+  /**
+   * Runs the async validators, after the `debounce` delay if any. A validator that rejects fails
+   * validation with an `async` error holding the reason, unless its run was superseded.
+   */
   protected async _runAsyncValidator(emitEvent?: boolean): Promise<void> {
     if (this.asyncValidator) {
+      const version = ++this._asyncValidationVersion
+      const controller = new AbortController()
+
       ;(this as { status: string }).status = FieldStatus.PENDING
       this._hasOwnPendingAsyncValidator = true
-      const errors: ValidationErrors | null = await coerceToPromise(this.asyncValidator(this))
-
-      if (errors) {
-        this._hasOwnPendingAsyncValidator = false
-        // This will trigger the recalculation of the validation status, which depends on
-        // the state of the asynchronous validation (whether it is in progress or not). So, it is
-        // necessary that we have updated the `_hasOwnPendingAsyncValidator` boolean flag first.
-        this.setErrors(errors, { emitEvent })
+      this._asyncValidationController = controller
+
+      if (this.debounce > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.debounce))
+
+        if (version !== this._asyncValidationVersion) return
       }
+
+      let errors: ValidationErrors | null
+
+      try {
+        errors = await coerceToPromise(
+          this.asyncValidator(this.value, this.context, controller.signal)
+        )
+      } catch (error) {
+        errors = { async: { error } }
+      }
+
+      if (version !== this._asyncValidationVersion) return
+
+      this._hasOwnPendingAsyncValidator = false
+      this._asyncValidationController = null
+      // This will trigger the recalculation of the validation status, which depends on
+      // the state of the asynchronous validation (whether it is in progress or not). So, it is
+      // necessary that we have updated the `_hasOwnPendingAsyncValidator` boolean flag first.
+      this.setErrors(errors, { emitEvent })
     }
   }
 
   /**
-   * Sets the parent context of the field
+   * Discards the pending run of the async validators, if any, aborting its signal.
    */
-  setParent(parent: FieldGroup): void {
-    this._parent = parent
+  private _cancelAsyncValidation(): void {
+    this._asyncValidationVersion++
+    this._hasOwnPendingAsyncValidator = false
+
+    if (this._asyncValidationController) {
+      this._asyncValidationController.abort()
+      this._asyncValidationController = null
+    }
+  }
+}
+
+/**
+ * Creates the field modelling an entry of a schema, holding `value` or else the default of the
+ * entry:
+ *  - a `FieldArray` for a `FieldSelector` with an `each` schema or the `'array'` type, whose
+ *    items are created from the `each` schema
+ *  - a `FieldGroup` for a nested schema
+ *  - a `Field` with the validators of a `FieldSelector` otherwise
+ */
+function createField(accessor: unknown, value?: any): AbstractField {
+  if (isFieldSelector(accessor)) {
+    const {
+      each,
+      type,
+      validators,
+      asyncValidators,
+      default: defaultValue,
+    } = accessor as FieldSelector
+    const initialValue = value === undefined ? defaultValue : value
+
+    if (!each && type !== 'array') {
+      return new Field(initialValue, validators, asyncValidators)
+    }
+
+    const createItem = (item?: any) => (each ? createField(each, item) : new Field(item))
+    const items = initialValue === undefined ? [] : castArray(initialValue)
+
+    return new FieldArray(items.map(createItem), validators, asyncValidators, createItem)
+  }
+
+  if (!isPlainObject(accessor)) return new Field(value)
+
+  const group = new FieldGroup(accessor as Schema)
+
+  if (value !== undefined) group.reset(value, { emitEvent: false })
+
+  return group
+}
+
+export class FieldGroup extends AbstractField {
+  get schema() {
+    return this._schema
+  }
+  private _schema: Schema
+
+  fields: Record<string, AbstractField>
+
+  /**
+   * Creates a group of fields from a schema, nesting a group for every nested schema. Group
+   * validators default to the `$validators` and `$asyncValidators` of the schema.
+   */
+  constructor(
+    schema: Schema,
+    validators?: ValidatorFn | string | ValidatorLike[],
+    asyncValidators?: AsyncValidatorFn | string | AsyncValidatorLike[]
+  ) {
+    super(validators || schema[GROUP_VALIDATORS], asyncValidators || schema[GROUP_ASYNC_VALIDATORS])
+    this._schema = schema
+
+    this.fields = Object.entries(this._schema).reduce((agg, [k, v]) => {
+      if (isGroupValidatorKey(k)) return agg
+
+      agg[k] = createField(v)
+      agg[k].setParent(this)
+
+      return agg
+    }, {})
+
+    this.updateValueAndValidity({ onlySelf: true, emitEvent: false })
+  }
+
+  /**
+   * Creates a group from a schema, holding the value `hookup` maps `source` to as its snapshot,
+   * so that `getDirtyValues` and `reset` are relative to the mapped value.
+   */
+  static fromSource(schema: Schema, source: object, options: HookupOptions = {}): FieldGroup {
+    const group = new FieldGroup(schema)
+    const { value } = hookup(schema, source, { ...options, mode: 'result' })
+
+    group.reset(value, { emitEvent: false })
+
+    return group
+  }
+
+  /**
+   * The values of the fields of the group, by key.
+   */
+  get value(): Record<string, any> {
+    return Object.entries(this.fields).reduce((value, [k, field]) => {
+      value[k] = field.value
+
+      return value
+    }, {})
+  }
+  set value(value: Record<string, any>) {
+    Object.entries(value).forEach(([k, v]) => {
+      if (hasOwn(this.fields, k)) this.fields[k].value = v
+    })
+  }
+
+  /**
+   * Replaces the values of all the fields of the group, throwing when a value is missing or
+   * doesn't belong to any field.
+   */
+  setValue(value: Record<string, any>, options: FieldUpdateOptions = {}): void {
+    Object.keys(this.fields).forEach((k) => {
+      if (!hasOwn(value, k)) throw new Error(`Missing a value for the field "${k}".`)
+    })
+    Object.keys(value).forEach((k) => {
+      if (!hasOwn(this.fields, k)) throw new Error(`There is no field "${k}".`)
+    })
+    Object.entries(value).forEach(([k, v]) => {
+      this.fields[k].setValue(v, { onlySelf: true, emitEvent: options.emitEvent })
+    })
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * Updates the values of the fields given in `value`, ignoring those that don't belong to any
+   * field.
+   */
+  patchValue(value: Record<string, any>, options: FieldUpdateOptions = {}): void {
+    Object.entries(value).forEach(([k, v]) => {
+      if (hasOwn(this.fields, k)) {
+        this.fields[k].patchValue(v, { onlySelf: true, emitEvent: options.emitEvent })
+      }
+    })
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * Resets every field of the group, to the value given for it in `value` if any.
+   */
+  reset(value: Record<string, any> = {}, options: FieldUpdateOptions = {}): void {
+    Object.entries(this.fields).forEach(([k, field]) => {
+      field.reset(value[k], { onlySelf: true, emitEvent: options.emitEvent })
+    })
+    this.markAsPristine(options)
+    this.markAsUntouched(options)
+    this.updateValueAndValidity(options)
+  }
+
+  getDirtyValues(): Record<string, any> {
+    return Object.entries(this.fields).reduce((patch, [k, field]) => {
+      if (field.dirty) patch[k] = field.getDirtyValues()
+
+      return patch
+    }, {})
+  }
+
+  protected _children(): AbstractField[] {
+    return Object.values(this.fields)
+  }
+}
+
+/**
+ * A list of fields that can grow and shrink, such as the items of an `each` schema. Its value is
+ * the list of the values of its items, which its validators receive, e.g. `Validators.minItems`
+ * or `Validators.uniqueItems`.
+ */
+export class FieldArray extends AbstractField {
+  fields: AbstractField[] = []
+
+  /**
+   * Creates the field of an item added by value rather than as a field.
+   */
+  private _createItem: (value?: any) => AbstractField
+
+  /**
+   * The values of the items the array was created with or last reset to, which `reset`
+   * restores.
+   */
+  private _snapshot: any[]
+
+  /**
+   * Creates an array of `items`. Items added by value, through `push`, `insert` or `setValue`,
+   * are created with `createItem`, which defaults to creating a `Field` holding the value.
+   */
+  constructor(
+    items: AbstractField[] = [],
+    validators?: ValidatorFn | string | ValidatorLike[],
+    asyncValidators?: AsyncValidatorFn | string | AsyncValidatorLike[] | null,
+    createItem: (value?: any) => AbstractField = (value) => new Field(value)
+  ) {
+    super(validators, asyncValidators)
+    this._createItem = createItem
+    this.fields = items.map((item) => this._toField(item))
+    this._snapshot = this.value
+    this.updateValueAndValidity({ onlySelf: true, emitEvent: false })
+  }
+
+  get value(): any[] {
+    return this.fields.map((field) => field.value)
+  }
+  set value(value: any[]) {
+    this._resize(value.length)
+    value.forEach((item, i) => (this.fields[i].value = item))
+  }
+
+  get length(): number {
+    return this.fields.length
+  }
+
+  at(index: number): AbstractField {
+    return this.fields[index]
+  }
+
+  /**
+   * Appends an item, given either as a field or as the value of a new field.
+   */
+  push(item: any, options: FieldUpdateOptions = {}): void {
+    this.insert(this.length, item, options)
+  }
+
+  /**
+   * Inserts an item at `index`, given either as a field or as the value of a new field.
+   */
+  insert(index: number, item: any, options: FieldUpdateOptions = {}): void {
+    this.fields.splice(index, 0, this._toField(item))
+    this.updateValueAndValidity(options)
+  }
+
+  removeAt(index: number, options: FieldUpdateOptions = {}): void {
+    this.fields.splice(index, 1).forEach((field) => field.setParent(null))
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * Moves the item at index `from` to index `to`, shifting the items in between.
+   */
+  move(from: number, to: number, options: FieldUpdateOptions = {}): void {
+    this.fields.splice(to, 0, ...this.fields.splice(from, 1))
+    this.updateValueAndValidity(options)
+  }
+
+  clear(options: FieldUpdateOptions = {}): void {
+    this._resize(0)
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * Replaces the items with one per value, reusing the existing items.
+   */
+  setValue(value: any[], options: FieldUpdateOptions = {}): void {
+    this._resize(value.length)
+    value.forEach((item, i) => {
+      this.fields[i].setValue(item, { onlySelf: true, emitEvent: options.emitEvent })
+    })
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * Updates the items at the indexes of `value`, ignoring values past the last item.
+   */
+  patchValue(value: any[], options: FieldUpdateOptions = {}): void {
+    value.slice(0, this.length).forEach((item, i) => {
+      this.fields[i].patchValue(item, { onlySelf: true, emitEvent: options.emitEvent })
+    })
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * Restores the items of the snapshot, or resets the array to one item per value.
+   */
+  reset(value: any[] = this._snapshot, options: FieldUpdateOptions = {}): void {
+    this._resize(value.length)
+    this.fields.forEach((field, i) => {
+      field.reset(value[i], { onlySelf: true, emitEvent: options.emitEvent })
+    })
+    this._snapshot = this.value
+    this.markAsPristine(options)
+    this.markAsUntouched(options)
+    this.updateValueAndValidity(options)
+  }
+
+  protected _children(): AbstractField[] {
+    return this.fields
+  }
+
+  private _toField(item: any): AbstractField {
+    const field = item instanceof AbstractField ? item : this._createItem(item)
+
+    field.setParent(this)
+
+    return field
+  }
+
+  private _resize(length: number): void {
+    this.fields.splice(length).forEach((field) => field.setParent(null))
+
+    while (this.fields.length < length) {
+      this.fields.push(this._toField(undefined))
+    }
+  }
+}
+
+export class Field extends AbstractField {
+  set value(value: any) {
+    this._value = value
+  }
+  get value() {
+    return this._value
+  }
+  private _value: any
+
+  /**
+   * The value the field was created with or last reset to, which `reset` restores.
+   */
+  private _snapshot: any
+
+  constructor(
+    value: FieldValue,
+    validators?: ValidatorFn | string | ValidatorLike[],
+    asyncValidators?: AsyncValidatorFn | string | AsyncValidatorLike[] | null
+  ) {
+    super(validators, asyncValidators)
+    this.value = this._snapshot = getFieldValue(value)
+    this.updateValueAndValidity({ onlySelf: true, emitEvent: false })
+  }
+
+  /**
+   * Validators receive the context of the parent group or array, if any.
+   */
+  get context(): MappingContext | undefined {
+    return this._parent ? this._parent.context : undefined
+  }
+
+  setValue(value: any, options: FieldUpdateOptions = {}): void {
+    this.value = value
+    this.updateValueAndValidity(options)
+  }
+
+  /**
+   * The same as `setValue`, as a field's value can't be updated partially.
+   */
+  patchValue(value: any, options: FieldUpdateOptions = {}): void {
+    this.setValue(value, options)
+  }
+
+  reset(value: any = this._snapshot, options: FieldUpdateOptions = {}): void {
+    this.value = this._snapshot = value
+    this.markAsPristine(options)
+    this.markAsUntouched(options)
+    this.updateValueAndValidity(options)
+  }
+
+  protected _children(): AbstractField[] {
+    return []
   }
 }
@@ -0,0 +1,167 @@
+import { mapCSV, mapNDJSON, parseCSV, parseNDJSON, toCSV, toNDJSON } from './adapters'
+import { CsvSyntaxError } from './errors'
+import { Validators } from './validators'
+
+const csv = [
+  'id;name;age;note',
+  '1;Miro;10;"likes ""quotes"""',
+  '2;Ana;34;"multi',
+  'line; note"',
+  '',
+  '3;Bo;abc;',
+].join('\r\n')
+
+const schema = {
+  id: 'id',
+  person: {
+    name: 'name',
+    age: { path: 'age', type: 'integer' as const, validators: Validators.min(12) },
+  },
+}
+
+describe('parseCSV', () => {
+  it('Should parse quoted fields, custom delimiters and headers', () => {
+    expect(parseCSV(csv, { delimiter: ';' })).toEqual([
+      { id: '1', name: 'Miro', age: '10', note: 'likes "quotes"' },
+      { id: '2', name: 'Ana', age: '34', note: 'multi\r\nline; note' },
+      { id: '3', name: 'Bo', age: 'abc', note: '' },
+    ])
+    expect(parseCSV('a,b\n1,2', { headers: false })).toEqual([
+      { 0: 'a', 1: 'b' },
+      { 0: '1', 1: '2' },
+    ])
+  })
+
+  it('Should locate malformed input', () => {
+    expect(() => parseCSV('a,b\n1,"2\n3,4')).toThrow(
+      new CsvSyntaxError(2, 'Unterminated quoted field opened')
+    )
+    expect(() => parseCSV('a,b\n1,"2"x')).toThrow(
+      'Unexpected character "x" after a closing quote on line 2'
+    )
+    expect(() => parseCSV('a,b\n1')).toThrow('Expected 2 fields but got 1 on line 2')
+  })
+
+  it('Should keep columns named after Object properties', () => {
+    const [record] = parseCSV('__proto__,constructor\nadmin,x')
+
+    expect(Object.keys(record)).toEqual(['__proto__', 'constructor'])
+    expect(Object.getPrototypeOf(record)).toBe(Object.prototype)
+    expect(mapCSV('__proto__\nadmin', { role: '__proto__' }).value).toEqual([{ role: 'admin' }])
+  })
+})
+
+describe('mapCSV', () => {
+  it('Should map records and report their errors with line numbers', () => {
+    const result = mapCSV(`${csv}\r\n4;Al`, schema, { delimiter: ';' })
+
+    expect(result.value).toEqual([
+      { id: '1', person: { name: 'Miro', age: 10 } },
+      { id: '2', person: { name: 'Ana', age: 34 } },
+      { id: '3', person: { name: 'Bo', age: 'abc' } },
+    ])
+    expect(result.errors).toEqual([
+      { line: 2, errors: { person: { age: { min: { min: 12, actual: 10 } } } } },
+      { line: 6, errors: { person: { age: { type: { expected: 'integer', actual: 'abc' } } } } },
+      { line: 7, errors: { columns: { expected: 4, actual: 2 } } },
+    ])
+    expect(result.valid).toBe(false)
+  })
+
+  it('Should report the records that throw while being mapped', () => {
+    const parsed = {
+      id: 'id',
+      data: {
+        path: 'data',
+        transform: (data: string) => JSON.parse(data) as unknown,
+      },
+    }
+    const result = mapCSV('id,data\n1,[]\n2,{', parsed)
+
+    expect(result.value).toEqual([{ id: '1', data: [] }])
+    expect(result.errors).toEqual([
+      { line: 3, errors: { exception: { message: expect.any(String) } } },
+    ])
+    expect(mapCSV('a\n1', { 'a.__proto__.polluted': 'a' }, { unflatten: true }).errors).toEqual([
+      {
+        line: 2,
+        errors: {
+          exception: {
+            message:
+              'Refusing to unflatten the key "a.__proto__.polluted", which would modify prototypes.',
+          },
+        },
+      },
+    ])
+    expect(({} as any).polluted).toBe(undefined)
+  })
+})
+
+describe('NDJSON', () => {
+  const ndjson = '{"id":1,"name":"Miro","age":20}\n\n{"id":2,\n'
+
+  it('Should parse and map lines', () => {
+    expect(parseNDJSON('{"a":1}\n\n[2]\n')).toEqual([{ a: 1 }, [2]])
+    expect(() => parseNDJSON(ndjson)).toThrow(/on line 3$/)
+
+    const result = mapNDJSON(ndjson, schema)
+
+    expect(result.value).toEqual([{ id: 1, person: { name: 'Miro', age: 20 } }])
+    expect(result.errors).toEqual([{ line: 3, errors: { parse: { message: expect.any(String) } } }])
+  })
+
+  it('Should report the lines that throw while being mapped', () => {
+    const known = {
+      id: {
+        path: 'id',
+        transform: (id: number) => {
+          if (id > 1) throw new Error(`Unknown id ${id}`)
+
+          return id
+        },
+      },
+    }
+
+    expect(mapNDJSON('{"id":1}\n{"id":2}', known)).toEqual({
+      value: [{ id: 1 }],
+      errors: [{ line: 2, errors: { exception: { message: 'Unknown id 2' } } }],
+      valid: false,
+    })
+  })
+
+  it('Should write one row per line', () => {
+    expect(toNDJSON([{ a: 1 }, { b: [2] }])).toEqual('{"a":1}\n{"b":[2]}\n')
+  })
+})
+
+describe('toCSV', () => {
+  const rows = [
+    { id: '1', person: { name: 'Miro', age: 10 }, tags: ['a'] },
+    { id: '2', person: { name: 'Doe, "Jo"' }, since: new Date(Date.UTC(2020, 0, 1)) },
+  ]
+
+  it('Should order columns by the keys of the schema', () => {
+    expect(toCSV(rows, { schema: { person: { age: 'age', name: 'name' }, id: 'id' } })).toEqual(
+      ['person.age,person.name,id', '10,Miro,1', ',"Doe, ""Jo""",2'].join('\r\n')
+    )
+  })
+
+  it('Should derive columns from the rows', () => {
+    expect(toCSV(rows, { delimiter: ';', newline: '\n' })).toEqual(
+      [
+        'id;person.name;person.age;tags;since',
+        '1;Miro;10;"[""a""]";',
+        '2;"Doe, ""Jo""";;;2020-01-01T00:00:00.000Z',
+      ].join('\n')
+    )
+    expect(toCSV(rows, { columns: ['person.name'], headers: false })).toEqual(
+      'Miro\r\n"Doe, ""Jo"""'
+    )
+  })
+
+  it('Should round-trip through parseCSV', () => {
+    const records = [{ a: 'x,y', b: 'line\nbreak', c: '"q"' }]
+
+    expect(parseCSV(toCSV(records))).toEqual(records)
+  })
+})
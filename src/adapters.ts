@@ -0,0 +1,322 @@
+import { hookup } from '.'
+import { CsvSyntaxError } from './errors'
+import { toPropertyKeys } from './path'
+import {
+  CsvOptions,
+  CsvWriteOptions,
+  HookupOptions,
+  MappingResult,
+  RecordError,
+  RecordsResult,
+  SchemaShape,
+} from './types'
+import { isDate, isFieldSelector, isGroupValidatorKey, isNil, isPlainObject, setKey } from './utils'
+
+/**
+ * A record of an input along with the line it starts on.
+ */
+interface Row<T> {
+  line: number
+  record?: T
+  errors?: RecordError['errors']
+}
+
+type RecordsOptions = Omit<HookupOptions, 'mode' | 'keyBy' | 'groupBy' | 'aggregate'>
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180: fields containing the delimiter, a
+ * quote or a line break are quoted, and quotes within them are doubled. Blank lines are skipped.
+ */
+function readCSV(text: string, delimiter: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let closed = false
+  let line = 1
+  let rowLine = 1
+  let quoteLine = 1
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endField = () => {
+    fields.push(field)
+    field = ''
+    closed = false
+  }
+
+  const endRow = () => {
+    if (fields.length || field !== '' || closed) {
+      endField()
+      rows.push({ line: rowLine, fields })
+    }
+
+    fields = []
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i += 2
+        continue
+      }
+
+      if (char === '"') {
+        quoted = false
+        closed = true
+      } else {
+        field += char
+        line += char === '\n' ? 1 : 0
+      }
+
+      i += 1
+    } else if (text.startsWith(delimiter, i)) {
+      endField()
+      i += delimiter.length
+    } else if (char === '\r' || char === '\n') {
+      endRow()
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1
+      line += 1
+      rowLine = line
+    } else if (closed) {
+      throw new CsvSyntaxError(line, `Unexpected character "${char}" after a closing quote`)
+    } else if (char === '"' && field === '') {
+      quoted = true
+      quoteLine = line
+      i += 1
+    } else {
+      field += char
+      i += 1
+    }
+  }
+
+  if (quoted) {
+    throw new CsvSyntaxError(quoteLine, 'Unterminated quoted field opened')
+  }
+
+  endRow()
+
+  return rows
+}
+
+function readCSVRecords(text: string, options: CsvOptions): Row<Record<string, string>>[] {
+  const { delimiter = ',', headers = true } = options
+  const rows = readCSV(text, delimiter)
+  const header = Array.isArray(headers)
+    ? headers
+    : headers && rows.length
+    ? rows.shift().fields
+    : null
+
+  return rows.map(({ line, fields }) => {
+    if (header && fields.length !== header.length) {
+      return { line, errors: { columns: { expected: header.length, actual: fields.length } } }
+    }
+
+    // Defined rather than assigned, so that a `__proto__` column isn't lost
+    const record = fields.reduce(
+      (record, value, i) => setKey(record, header ? header[i] : String(i), value),
+      {} as Record<string, string>
+    )
+
+    return { line, record }
+  })
+}
+
+function readNDJSONRecords(text: string): Row<any>[] {
+  return text.split(/\r?\n/).reduce((rows, json, i) => {
+    if (json.trim() === '') return rows
+
+    try {
+      rows.push({ line: i + 1, record: JSON.parse(json) })
+    } catch (e) {
+      rows.push({ line: i + 1, errors: { parse: { message: (e as Error).message } } })
+    }
+
+    return rows
+  }, [] as Row<any>[])
+}
+
+/**
+ * Parses CSV text into records keyed by the column names of its header row. Throws a
+ * `CsvSyntaxError` for malformed quoting, or when a row doesn't have as many fields as there are
+ * columns.
+ */
+export function parseCSV(text: string, options: CsvOptions = {}): Record<string, string>[] {
+  return readCSVRecords(text, options).map(({ line, record, errors }) => {
+    if (errors) {
+      const { expected, actual } = errors.columns
+
+      throw new CsvSyntaxError(line, `Expected ${expected} fields but got ${actual}`)
+    }
+
+    return record
+  })
+}
+
+/**
+ * Parses newline-delimited JSON into records, skipping blank lines. Throws a `SyntaxError`
+ * locating the first line that isn't valid JSON.
+ */
+export function parseNDJSON(text: string): any[] {
+  return readNDJSONRecords(text).map(({ line, record, errors }) => {
+    if (errors) {
+      throw new SyntaxError(`${errors.parse.message} on line ${line}`)
+    }
+
+    return record
+  })
+}
+
+function mapRecords(rows: Row<any>[], schema: SchemaShape, options: RecordsOptions) {
+  return rows.reduce(
+    (result, { line, record, errors }) => {
+      if (errors) {
+        result.errors.push({ line, errors })
+        result.valid = false
+
+        return result
+      }
+
+      let mapped: MappingResult
+
+      try {
+        mapped = hookup(schema, record, { ...options, mode: 'result' })
+      } catch (e) {
+        result.errors.push({ line, errors: { exception: { message: (e as Error).message } } })
+        result.valid = false
+
+        return result
+      }
+
+      result.value.push(mapped.value)
+
+      if (!mapped.valid) {
+        result.errors.push({ line, errors: mapped.errors })
+        result.valid = false
+      }
+
+      return result
+    },
+    { value: [], errors: [], valid: true } as RecordsResult
+  )
+}
+
+/**
+ * Maps every record of CSV text with `schema`. Rather than throwing, records that fail
+ * validation, don't have as many fields as there are columns or throw while being mapped are
+ * reported in `errors` along with the line they start on. Fields are strings, which the `type`
+ * option of a `FieldSelector` coerces.
+ */
+export function mapCSV(
+  text: string,
+  schema: SchemaShape,
+  options: RecordsOptions & CsvOptions = {}
+): RecordsResult {
+  const { delimiter, headers, ...hookupOptions } = options
+
+  return mapRecords(readCSVRecords(text, { delimiter, headers }), schema, hookupOptions)
+}
+
+/**
+ * Maps every line of newline-delimited JSON with `schema`, reporting the lines that aren't valid
+ * JSON, fail validation or throw while being mapped in `errors`.
+ */
+export function mapNDJSON(
+  text: string,
+  schema: SchemaShape,
+  options: RecordsOptions = {}
+): RecordsResult {
+  return mapRecords(readNDJSONRecords(text), schema, options)
+}
+
+/**
+ * The key paths of the columns a schema produces, in the order of its keys. Nested schemas
+ * contribute a column per key.
+ */
+function schemaColumns(schema: object, prefix: string[] = []): string[][] {
+  return Object.entries(schema).reduce((columns, [k, v]) => {
+    if (isGroupValidatorKey(k)) return columns
+
+    const path = [...prefix, k]
+
+    return isPlainObject(v) && !isFieldSelector(v)
+      ? [...columns, ...schemaColumns(v, path)]
+      : [...columns, path]
+  }, [] as string[][])
+}
+
+/**
+ * The key paths of the leaves of the rows, in the order they first appear.
+ */
+function rowColumns(rows: object[]): string[][] {
+  const seen = new Map<string, string[]>()
+
+  const visit = (value: object, prefix: string[]) => {
+    Object.entries(value).forEach(([k, v]) => {
+      const path = [...prefix, k]
+
+      if (isPlainObject(v) && Object.keys(v).length) {
+        visit(v, path)
+      } else if (!seen.has(JSON.stringify(path))) {
+        seen.set(JSON.stringify(path), path)
+      }
+    })
+  }
+
+  rows.forEach((row) => visit(row, []))
+
+  return Array.from(seen.values())
+}
+
+function formatCell(value: unknown, delimiter: string): string {
+  const cell = isNil(value)
+    ? ''
+    : isDate(value)
+    ? isNaN((value as Date).getTime())
+      ? ''
+      : (value as Date).toISOString()
+    : typeof value === 'object'
+    ? JSON.stringify(value)
+    : String(value)
+
+  return cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
+
+/**
+ * Writes mapped rows as CSV, quoting fields as RFC 4180 prescribes. Nested objects are written as
+ * one column per key and other objects as JSON.
+ */
+export function toCSV(rows: object[], options: CsvWriteOptions = {}): string {
+  const { delimiter = ',', headers = true, newline = '\r\n' } = options
+  const columns = options.columns
+    ? options.columns.map((column) => toPropertyKeys(column).map(String))
+    : options.schema
+    ? schemaColumns(options.schema)
+    : rowColumns(rows)
+  const lines = rows.map((row) =>
+    columns
+      .map((path) =>
+        formatCell(
+          path.reduce((value, key) => (isNil(value) ? value : value[key]), row),
+          delimiter
+        )
+      )
+      .join(delimiter)
+  )
+
+  if (headers) {
+    lines.unshift(columns.map((path) => formatCell(path.join('.'), delimiter)).join(delimiter))
+  }
+
+  return lines.join(newline)
+}
+
+/**
+ * Writes mapped rows as newline-delimited JSON, one row per line.
+ */
+export function toNDJSON(rows: unknown[]): string {
+  return rows.map((row) => `${JSON.stringify(row)}\n`).join('')
+}
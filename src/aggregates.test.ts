@@ -0,0 +1,107 @@
+import { hookup, hookupAsync } from '.'
+import { Aggregates } from './aggregates'
+
+const rows = [
+  { id: 'o1', region: 'EU', customer: 'Miro', amount: '12.5' },
+  { id: 'o2', region: 'US', customer: 'Ana', amount: '20' },
+  { id: 'o3', region: 'EU', customer: 'Ana', amount: '7.5' },
+  { id: 'o4', region: 'EU', customer: 'Miro', amount: null },
+]
+
+const schema = {
+  id: 'id',
+  region: 'region',
+  customer: 'customer',
+  amount: { path: 'amount', type: 'number' as const },
+}
+
+describe('Aggregates', () => {
+  const items = [{ n: 3 }, { n: 1 }, { n: null }, { n: 2 }]
+
+  it('Should reduce the values at a path', () => {
+    expect(Aggregates.count()(items)).toEqual(4)
+    expect(Aggregates.count('n')(items)).toEqual(3)
+    expect(Aggregates.sum('n')(items)).toEqual(6)
+    expect(Aggregates.avg('n')(items)).toEqual(2)
+    expect(Aggregates.min('n')(items)).toEqual(1)
+    expect(Aggregates.max('n')(items)).toEqual(3)
+    expect(Aggregates.distinct('n')([...items, ...items])).toEqual([3, 1, 2])
+    expect(Aggregates.first('n')(items)).toEqual(3)
+    expect(Aggregates.last()(items)).toEqual({ n: 2 })
+  })
+
+  it('Should handle empty lists', () => {
+    expect(Aggregates.sum('n')([])).toEqual(0)
+    expect(Aggregates.avg('n')([])).toBeUndefined()
+    expect(Aggregates.max('n')([])).toBeUndefined()
+    expect(Aggregates.first()([])).toBeUndefined()
+  })
+})
+
+describe('hookup collections', () => {
+  it('Should key the mapped items by a field', () => {
+    const data: Record<string, { id: string; region: string }> = hookup(
+      { id: 'id', region: 'region' },
+      rows,
+      { keyBy: 'id' }
+    )
+
+    expect(Object.keys(data)).toEqual(['o1', 'o2', 'o3', 'o4'])
+    expect(data.o2).toEqual({ id: 'o2', region: 'US' })
+  })
+
+  it('Should group the mapped items', () => {
+    const data = hookup({ id: 'id' }, rows, { groupBy: (_item, row) => row.region })
+
+    expect(data).toEqual({ EU: [{ id: 'o1' }, { id: 'o3' }, { id: 'o4' }], US: [{ id: 'o2' }] })
+  })
+
+  it('Should aggregate every group of mapped items', async () => {
+    const options = {
+      groupBy: 'region',
+      aggregate: {
+        orders: Aggregates.count(),
+        revenue: Aggregates.sum('amount'),
+        customers: Aggregates.distinct('customer'),
+      },
+    }
+    const expected = {
+      EU: { orders: 3, revenue: 20, customers: ['Miro', 'Ana'] },
+      US: { orders: 1, revenue: 20, customers: ['Ana'] },
+    }
+
+    expect(hookup(schema, rows, options)).toEqual(expected)
+    expect(await hookupAsync(schema, rows, options)).toEqual(expected)
+  })
+
+  it('Should aggregate the whole collection', () => {
+    const report: { total: number; largest: number } = hookup(schema, rows, {
+      aggregate: { total: Aggregates.sum('amount'), largest: Aggregates.max<number>('amount') },
+    })
+
+    expect(report).toEqual({ total: 40, largest: 20 })
+  })
+
+  it('Should collect items under keys named after Object properties', () => {
+    const tags = [{ tag: 'constructor' }, { tag: '__proto__' }, { tag: 'constructor' }]
+    const grouped = hookup({ tag: 'tag' }, tags, { groupBy: 'tag' })
+    const keyed = hookup({ tag: 'tag' }, tags, { keyBy: 'tag' })
+    const counted = hookup({ tag: 'tag' }, tags, {
+      groupBy: 'tag',
+      aggregate: { count: Aggregates.count() },
+    })
+
+    expect(grouped.constructor).toEqual([{ tag: 'constructor' }, { tag: 'constructor' }])
+    expect(Object.keys(grouped)).toEqual(['constructor', '__proto__'])
+    expect(Object.getPrototypeOf(keyed)).toBe(Object.prototype)
+    expect(Object.getOwnPropertyDescriptor(keyed, '__proto__').value).toEqual({ tag: '__proto__' })
+    expect(Object.getOwnPropertyDescriptor(counted, '__proto__').value).toEqual({ count: 1 })
+    expect(counted.constructor).toEqual({ count: 2 })
+  })
+
+  it('Should refuse to key aggregated items', () => {
+    expect(() => hookup(schema, rows, { keyBy: 'id', aggregate: {} })).toThrow(
+      'The keyBy option cannot be combined with groupBy or aggregate.'
+    )
+  })
+})
@@ -0,0 +1,153 @@
+import { AggregateFn, CollectionKey, HookupOptions } from './types'
+import { get, hasOwn, isNil, isPlainObject, setKey } from './utils'
+
+/**
+ * The value at `path` of a mapped item. Items flattened by the `flatten` option of `hookup` are
+ * read by their keys, which are paths themselves.
+ */
+const valueAt = (item: any, path: string) =>
+  isPlainObject(item) && hasOwn(item, path) ? item[path] : get(item, path)
+
+/**
+ * The values at `path` of every item, or the items themselves without a path, leaving out null
+ * and undefined.
+ */
+const valuesOf = (items: any[], path?: string) =>
+  items
+    .map((item) => (path === undefined ? item : valueAt(item, path)))
+    .filter((value) => !isNil(value))
+
+const numbersOf = (items: any[], path: string): number[] =>
+  valuesOf(items, path).filter((value) => typeof value === 'number' && !Number.isNaN(value))
+
+/**
+ * Common reducers for the `aggregate` option of `hookup`. Each reads the values at a path of the
+ * mapped items, skipping null and undefined:
+ *
+ * ```ts
+ * const aggregate = { orders: Aggregates.count(), revenue: Aggregates.sum('total') }
+ * ```
+ *
+ * `sum` is 0 for no values, while `avg`, `min` and `max` are undefined.
+ */
+export class Aggregates {
+  /**
+   * The number of items, or of the items that have a value at `path`.
+   */
+  static count(path?: string): AggregateFn<number> {
+    return (items) => (path === undefined ? items.length : valuesOf(items, path).length)
+  }
+
+  static sum(path: string): AggregateFn<number> {
+    return (items) => numbersOf(items, path).reduce((sum, value) => sum + value, 0)
+  }
+
+  static avg(path: string): AggregateFn<number | undefined> {
+    return (items) => {
+      const values = numbersOf(items, path)
+
+      return values.length
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : undefined
+    }
+  }
+
+  /**
+   * The smallest value at `path`. Numbers, strings and dates are compared as with `<`.
+   */
+  static min<T = any>(path: string): AggregateFn<T | undefined> {
+    return (items) =>
+      valuesOf(items, path).reduce(
+        (min, value) => (min === undefined || value < min ? value : min),
+        undefined
+      )
+  }
+
+  static max<T = any>(path: string): AggregateFn<T | undefined> {
+    return (items) =>
+      valuesOf(items, path).reduce(
+        (max, value) => (max === undefined || value > max ? value : max),
+        undefined
+      )
+  }
+
+  /**
+   * The distinct values at `path`, in the order they first appear.
+   */
+  static distinct<T = any>(path?: string): AggregateFn<T[]> {
+    return (items) => Array.from(new Set(valuesOf(items, path)))
+  }
+
+  /**
+   * The value at `path` of the first item, or the first item itself without a path.
+   */
+  static first<T = any>(path?: string): AggregateFn<T | undefined> {
+    return (items) =>
+      items.length ? (path === undefined ? items[0] : valueAt(items[0], path)) : undefined
+  }
+
+  static last<T = any>(path?: string): AggregateFn<T | undefined> {
+    return (items) => Aggregates.first<T>(path)(items.slice(-1))
+  }
+
+  /**
+   * The values at `path` of every item, or the items themselves without a path.
+   */
+  static list<T = any>(path?: string): AggregateFn<T[]> {
+    return (items) => valuesOf(items, path)
+  }
+}
+
+function toKeyFn(key: CollectionKey) {
+  return typeof key === 'function' ? key : (item: any) => valueAt(item, key)
+}
+
+function reduceAll(items: any[], aggregate: Record<string, AggregateFn>) {
+  return Object.entries(aggregate).reduce((values, [name, aggregateFn]) => {
+    values[name] = aggregateFn(items)
+
+    return values
+  }, {} as Record<string, any>)
+}
+
+/**
+ * Reshapes the items mapped from an array source as the `keyBy`, `groupBy` and `aggregate`
+ * options of `hookup` ask. Returns the items as they are without any of them.
+ */
+export function collect(items: any[], sources: any[], options: HookupOptions): any {
+  const { keyBy, groupBy, aggregate } = options
+
+  if (keyBy !== undefined && (groupBy !== undefined || aggregate)) {
+    throw new TypeError('The keyBy option cannot be combined with groupBy or aggregate.')
+  }
+
+  if (keyBy !== undefined) {
+    const keyFn = toKeyFn(keyBy)
+
+    return items.reduce((keyed, item, i) => setKey(keyed, keyFn(item, sources[i]), item), {})
+  }
+
+  if (groupBy === undefined) {
+    return aggregate ? reduceAll(items, aggregate) : items
+  }
+
+  const keyFn = toKeyFn(groupBy)
+  const groups = items.reduce((grouped, item, i) => {
+    const key = keyFn(item, sources[i])
+
+    if (!hasOwn(grouped, key)) {
+      setKey(grouped, key, [])
+    }
+
+    grouped[key].push(item)
+
+    return grouped
+  }, {} as Record<string, any[]>)
+
+  if (!aggregate) return groups
+
+  return Object.keys(groups).reduce(
+    (aggregated, key) => setKey(aggregated, key, reduceAll(groups[key], aggregate)),
+    {} as Record<string, any>
+  )
+}
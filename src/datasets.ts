@@ -0,0 +1,50 @@
+import { get } from './utils'
+
+/**
+ * The auxiliary collections passed to `hookup` through its `datasets` option, which `join`
+ * selectors look items up in. Each dataset is indexed by a path the first time it's looked up
+ * by it, so that a `hookup` call only ever scans a dataset once per path.
+ */
+export class Datasets {
+  private indexes = new Map<string, Map<unknown, object[]>>()
+
+  constructor(private datasets: Record<string, object[]> = {}) {}
+
+  /**
+   * The items of the dataset `from` whose value at `on` is `value`, in the order of the dataset.
+   * Values are compared with the semantics of a `Map` key, so `42` doesn't match `'42'`.
+   */
+  lookup(from: string, on: string, value: unknown): object[] {
+    return this.getIndex(from, on).get(value) || []
+  }
+
+  private getIndex(from: string, on: string) {
+    const key = JSON.stringify([from, on])
+
+    if (!this.indexes.has(key)) {
+      this.indexes.set(key, this.buildIndex(from, on))
+    }
+
+    return this.indexes.get(key)
+  }
+
+  private buildIndex(from: string, on: string) {
+    const items = this.datasets[from]
+
+    if (!Array.isArray(items)) {
+      throw new Error(`Unknown dataset "${from}".`)
+    }
+
+    return items.reduce<Map<unknown, object[]>>((index, item) => {
+      const value = get(item, on)
+
+      if (!index.has(value)) {
+        index.set(value, [])
+      }
+
+      index.get(value).push(item)
+
+      return index
+    }, new Map<unknown, object[]>())
+  }
+}
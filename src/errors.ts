@@ -0,0 +1,92 @@
+import { SchemaIssue, ValidationErrors } from './types'
+
+/**
+ * The errors produced while mapping a source, keyed the same way as the schema that produced
+ * them. Leaves are `ValidationErrors`, while nested sub-schemas produce nested `ErrorTree`s and
+ * `each` sub-schemas produce an `ErrorTree` keyed by item index.
+ */
+export class ErrorTree {
+  [key: string]: ValidationErrors | ErrorTree
+}
+
+/**
+ * The key under which an `ErrorTree` holds the errors of the field or group it belongs to, as
+ * opposed to the errors of its children.
+ */
+export const GROUP_ERRORS = '$errors'
+
+export const isErrorTree = (o: unknown): o is ErrorTree => o instanceof ErrorTree
+
+/**
+ * Thrown when a path can't be parsed. The message points to the offending character:
+ *
+ * ```
+ * Unexpected character "]" at position 5 in path "jobs[]"
+ *   jobs[]
+ *        ^
+ * ```
+ */
+export class PathSyntaxError extends SyntaxError {
+  constructor(readonly path: string, readonly position: number, reason: string) {
+    super(
+      `${reason} at position ${position} in path "${path}"\n  ${path}\n  ${' '.repeat(position)}^`
+    )
+    this.name = 'PathSyntaxError'
+  }
+}
+
+/**
+ * Thrown when CSV input is malformed, such as a quoted field that is never closed.
+ */
+export class CsvSyntaxError extends SyntaxError {
+  constructor(readonly line: number, reason: string) {
+    super(`${reason} on line ${line}`)
+    this.name = 'CsvSyntaxError'
+  }
+}
+
+/**
+ * Thrown by the `'throw'` missing-path policy when a field's path can't be resolved.
+ */
+export class MissingPathError extends Error {
+  constructor(readonly key: string, readonly paths: string[], unresolved: string) {
+    super(
+      `Could not resolve ${paths.length > 1 ? 'any of the paths' : 'the path'} ${paths
+        .map((path) => `"${path}"`)
+        .join(', ')} for the schema key "${key}": nothing was found at "${unresolved}".`
+    )
+    this.name = 'MissingPathError'
+  }
+}
+
+/**
+ * Thrown by the `'throw'` missing policy of a `join` when no item of the dataset matches the
+ * reference read from the source.
+ */
+export class MissingReferenceError extends Error {
+  constructor(
+    readonly key: string,
+    readonly from: string,
+    readonly on: string,
+    readonly reference: unknown
+  ) {
+    super(
+      `No item of the dataset "${from}" has ${JSON.stringify(reference)} at "${on}", ` +
+        `as referenced by the schema key "${key}".`
+    )
+    this.name = 'MissingReferenceError'
+  }
+}
+
+/**
+ * Thrown by `loadSchema` and `serializeSchema` with every problem found in the schema, rather
+ * than just the first one.
+ */
+export class SchemaFormatError extends Error {
+  constructor(readonly issues: SchemaIssue[]) {
+    super(
+      `Invalid schema:\n${issues.map(({ key, message }) => `  - ${key}: ${message}`).join('\n')}`
+    )
+    this.name = 'SchemaFormatError'
+  }
+}
@@ -0,0 +1,25 @@
+import { Listener, Subscription } from './types'
+
+/**
+ * A minimal event source, notifying its listeners synchronously in the order they subscribed.
+ */
+export class EventEmitter<T> {
+  /**
+   * Replaced rather than mutated, so that listeners can unsubscribe while being notified.
+   */
+  private listeners: Listener<T>[] = []
+
+  subscribe(listener: Listener<T>): Subscription {
+    this.listeners = [...this.listeners, listener]
+
+    return {
+      unsubscribe: () => {
+        this.listeners = this.listeners.filter((other) => other !== listener)
+      },
+    }
+  }
+
+  emit(event: T): void {
+    this.listeners.forEach((listener) => listener(event))
+  }
+}
@@ -0,0 +1,126 @@
+import { hookup } from '.'
+import { Aggregates } from './aggregates'
+import { PathSyntaxError } from './errors'
+import { flatten, unflatten } from './flatten'
+
+const person = {
+  name: 'Miro',
+  address: { city: 'Paris', geo: { lat: 48.8, lng: 2.3 } },
+  jobs: [{ title: 'cook', tags: ['hot', 'fast'] }, { title: 'baker' }],
+  meta: { 'a.b': 1, '0': 'zero', 'x\\y': true },
+  empty: { list: [], obj: {} },
+  since: new Date(0),
+}
+
+describe('flatten', () => {
+  it('Should key leaves by their paths', () => {
+    expect(flatten(person)).toEqual({
+      name: 'Miro',
+      'address.city': 'Paris',
+      'address.geo.lat': 48.8,
+      'address.geo.lng': 2.3,
+      'jobs.0.title': 'cook',
+      'jobs.0.tags.0': 'hot',
+      'jobs.0.tags.1': 'fast',
+      'jobs.1.title': 'baker',
+      'meta.a\\.b': 1,
+      'meta.\\0': 'zero',
+      'meta.x\\\\y': true,
+      'empty.list': [],
+      'empty.obj': {},
+      since: new Date(0),
+    })
+  })
+
+  it('Should support custom delimiters, bracket indices and a maximum depth', () => {
+    expect(
+      flatten(
+        { jobs: [{ title: 'cook' }], address: person.address },
+        {
+          delimiter: '/',
+          arrays: 'bracket',
+          maxDepth: 2,
+        }
+      )
+    ).toEqual({
+      'jobs[0]': { title: 'cook' },
+      'address/city': 'Paris',
+      'address/geo': { lat: 48.8, lng: 2.3 },
+    })
+    expect(flatten({ matrix: [[1, 2]] }, { arrays: 'bracket' })).toEqual({
+      'matrix[0][0]': 1,
+      'matrix[0][1]': 2,
+    })
+  })
+
+  it('Should round-trip', () => {
+    const options = [{}, { arrays: 'bracket' as const }, { delimiter: '__' }, { maxDepth: 2 }]
+
+    options.forEach((option) => {
+      expect(unflatten(flatten(person, option), option)).toEqual(person)
+    })
+  })
+})
+
+describe('unflatten', () => {
+  it('Should create arrays from numeric segments', () => {
+    expect(unflatten({ 'jobs.0.title': 'cook', 'jobs.1.title': 'baker', 'zip.code': 1 })).toEqual({
+      jobs: [{ title: 'cook' }, { title: 'baker' }],
+      zip: { code: 1 },
+    })
+  })
+
+  it('Should refuse keys reaching prototypes', () => {
+    expect(() => unflatten({ '__proto__.polluted': 'yes' })).toThrow(
+      'Refusing to unflatten the key "__proto__.polluted", which would modify prototypes.'
+    )
+    expect(() =>
+      unflatten({ 'a/constructor/prototype/polluted': 'yes' }, { delimiter: '/' })
+    ).toThrow('a/constructor/prototype/polluted')
+    expect(() =>
+      hookup({ '__proto__.polluted': 'name' }, { name: 'yes' }, { unflatten: true })
+    ).toThrow(TypeError)
+    expect(({} as any).polluted).toBeUndefined()
+  })
+
+  it('Should reject malformed bracket indices', () => {
+    expect(() => unflatten({ 'a[0': 1 }, { arrays: 'bracket' })).toThrow(
+      new PathSyntaxError('a[0', 1, 'Unterminated bracket')
+    )
+    expect(() => unflatten({ 'a[x].b': 1 }, { arrays: 'bracket' })).toThrow(
+      'Expected an array index at position 2 in path "a[x].b"'
+    )
+    expect(() => unflatten({ 'a[]': 1 }, { arrays: 'bracket' })).toThrow(PathSyntaxError)
+  })
+})
+
+describe('hookup flatten', () => {
+  const source = { _firstName: 'Miro', contactInfo: { email: 'miro@mediumwarmmail.com' } }
+
+  it('Should flatten targets', () => {
+    expect(
+      hookup({ name: '_firstName', contact: { email: 'contactInfo.email' } }, source, {
+        flatten: true,
+      })
+    ).toEqual({ name: 'Miro', 'contact.email': 'miro@mediumwarmmail.com' })
+  })
+
+  it('Should unflatten targets with dotted keys', () => {
+    expect(
+      hookup({ 'person.name': '_firstName', 'person.emails.0': 'contactInfo.email' }, source, {
+        unflatten: true,
+      })
+    ).toEqual({ person: { name: 'Miro', emails: ['miro@mediumwarmmail.com'] } })
+  })
+
+  it('Should aggregate flattened rows', () => {
+    const rows = [source, { ...source, _firstName: 'Ana' }]
+
+    expect(
+      hookup({ contact: { email: 'contactInfo.email' } }, rows, {
+        flatten: { delimiter: '_' },
+        aggregate: { emails: Aggregates.distinct('contact_email') },
+      })
+    ).toEqual({ emails: ['miro@mediumwarmmail.com'] })
+  })
+})
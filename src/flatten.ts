@@ -0,0 +1,159 @@
+import { PathSyntaxError } from './errors'
+import { FlattenOptions } from './types'
+import { isPlainObject, isUnsafeKey, set } from './utils'
+
+const ESCAPE = '\\'
+
+const isDigits = (key: string) => /^\d+$/.test(key)
+
+/**
+ * Whether `flatten` descends into `value` rather than keeping it as a leaf. Empty objects and
+ * arrays are kept as leaves so that they survive a round trip.
+ */
+const isBranch = (value: unknown): value is object =>
+  (isPlainObject(value) || Array.isArray(value)) && Object.keys(value as object).length > 0
+
+/**
+ * Escapes the characters of a property name that `unflatten` would read as syntax. Names made of
+ * digits get their first digit escaped in the `'dot'` notation, so they aren't read back as array
+ * indices.
+ */
+function escapeKey(key: string, delimiter: string, arrays: FlattenOptions['arrays']) {
+  const tokens = arrays === 'bracket' ? [ESCAPE, delimiter, '['] : [ESCAPE, delimiter]
+  let escaped = ''
+
+  for (let i = 0; i < key.length; i++) {
+    const token = tokens.find((t) => key.startsWith(t, i))
+
+    if (token) {
+      escaped += `${ESCAPE}${token}`
+      i += token.length - 1
+    } else {
+      escaped += key[i]
+    }
+  }
+
+  return arrays !== 'bracket' && isDigits(key) ? `${ESCAPE}${escaped}` : escaped
+}
+
+/**
+ * Splits a flattened key back into the property keys it was made of, numbers being array indices.
+ */
+function splitKey(key: string, delimiter: string, arrays: FlattenOptions['arrays']) {
+  const keys: (string | number)[] = []
+  let segment = ''
+  // Whether a property name is being read, as opposed to having just read an index
+  let pending = true
+  let escaped = false
+  let i = 0
+
+  const pushSegment = () => {
+    keys.push(!escaped && arrays !== 'bracket' && isDigits(segment) ? Number(segment) : segment)
+    segment = ''
+    escaped = false
+  }
+
+  while (i < key.length) {
+    if (key[i] === ESCAPE && i + 1 < key.length) {
+      const token = key.startsWith(delimiter, i + 1) ? delimiter : key[i + 1]
+
+      segment += token
+      escaped = pending = true
+      i += 1 + token.length
+    } else if (key.startsWith(delimiter, i)) {
+      if (pending) pushSegment()
+
+      pending = true
+      i += delimiter.length
+    } else if (arrays === 'bracket' && key[i] === '[') {
+      const end = key.indexOf(']', i)
+
+      if (end === -1) throw new PathSyntaxError(key, i, 'Unterminated bracket')
+
+      const index = key.slice(i + 1, end)
+
+      if (!isDigits(index)) throw new PathSyntaxError(key, i + 1, 'Expected an array index')
+
+      if (segment !== '' || escaped) pushSegment()
+
+      keys.push(Number(index))
+      pending = false
+      i = end + 1
+    } else {
+      segment += key[i]
+      pending = true
+      i += 1
+    }
+  }
+
+  if (pending) pushSegment()
+
+  return keys
+}
+
+/**
+ * Turns a nested object into a single-level one keyed by the paths of its leaves:
+ *
+ * ```ts
+ * flatten({ address: { city: 'Paris' }, jobs: [{ title: 'cook' }] })
+ * // { 'address.city': 'Paris', 'jobs.0.title': 'cook' }
+ * ```
+ *
+ * Only plain objects and arrays are descended into. Property names containing the delimiter are
+ * escaped with a backslash, so that `unflatten` restores the original object given the same
+ * options.
+ */
+export function flatten(target: object, options: FlattenOptions = {}): Record<string, any> {
+  const { delimiter = '.', arrays = 'dot', maxDepth = Infinity } = options
+  const flat: Record<string, any> = {}
+
+  const join = (prefix: string | undefined, key: string, isIndex: boolean) => {
+    if (isIndex && arrays === 'bracket') return `${prefix || ''}[${key}]`
+
+    const segment = isIndex ? key : escapeKey(key, delimiter, arrays)
+
+    return prefix === undefined ? segment : `${prefix}${delimiter}${segment}`
+  }
+
+  const visit = (value: unknown, prefix: string | undefined, depth: number) => {
+    if (prefix !== undefined && (depth >= maxDepth || !isBranch(value))) {
+      flat[prefix] = value
+
+      return
+    }
+
+    Object.keys(value).forEach((key) => {
+      visit(value[key], join(prefix, key, Array.isArray(value)), depth + 1)
+    })
+  }
+
+  visit(target, undefined, 0)
+
+  return flat
+}
+
+/**
+ * Turns an object keyed by paths, as produced by `flatten`, back into a nested object. Numeric
+ * segments create arrays, or only bracketed indices with the `'bracket'` notation.
+ * Throws for keys with a `__proto__`, `constructor` or `prototype` segment, as they may come
+ * from untrusted input such as a CSV header, and a `PathSyntaxError` for brackets that aren't
+ * closed or don't hold an index.
+ *
+ * ```ts
+ * unflatten({ 'address.city': 'Paris', 'jobs.0.title': 'cook' })
+ * // { address: { city: 'Paris' }, jobs: [{ title: 'cook' }] }
+ * ```
+ */
+export function unflatten(flat: Record<string, any>, options: FlattenOptions = {}): any {
+  const { delimiter = '.', arrays = 'dot' } = options
+
+  return Object.keys(flat).reduce((target, key) => {
+    const keys = splitKey(key, delimiter, arrays)
+
+    if (keys.some(isUnsafeKey)) {
+      throw new TypeError(`Refusing to unflatten the key "${key}", which would modify prototypes.`)
+    }
+
+    return set(target, keys, flat[key])
+  }, {})
+}
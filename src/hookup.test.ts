@@ -1,4 +1,7 @@
-import { hookup } from '.'
+import { hookup, hookupAsync } from '.'
+import { MissingReferenceError } from './errors'
+import { FieldGroup } from './Field'
+import { MappingContext } from './types'
 import { Validators } from './validators'
 
 const testSource = {
@@ -60,7 +63,7 @@ const aggregatedLocation = {
 
 describe('hookup', () => {
   beforeEach(() => {
-    data = hookup(testSchema, testSource) as Record<keyof typeof testSchema, any>
+    data = hookup(testSchema, testSource)
   })
 
   it('Should generate a schema from a source', () => {
@@ -79,3 +82,568 @@ describe('hookup', () => {
     expect(data.location).toEqual(aggregatedLocation)
   })
 })
+
+describe('hookup types', () => {
+  it('Should infer the target from the schema', () => {
+    const person: { name: string; zip: number; job: string; jobs: { title: string }[] } = hookup(
+      {
+        name: '_firstName',
+        zip: 'address.zipcode',
+        job: { path: 'jobs.0.title', transform: (x: string) => x.toUpperCase() },
+        jobs: { path: 'jobs', each: { title: 'title' } },
+      },
+      testSource
+    )
+
+    expect(person).toEqual({ name: 'Miro', zip: 11103, job: 'COOK', jobs: [{ title: 'cook' }] })
+  })
+
+  it('Should reject paths that are not in the source', () => {
+    // @ts-expect-error typo in a top-level path
+    expect(hookup({ email: 'contactInfo.emial' }, testSource)).toEqual({ email: undefined })
+    // @ts-expect-error typo in a path of an `each` schema
+    expect(hookup({ jobs: { path: 'jobs', each: { title: 'name' } } }, testSource)).toEqual({
+      jobs: [{ title: undefined }],
+    })
+  })
+
+  it('Should tell nested schemas with a path key apart from field selectors', () => {
+    const source = { filePath: '/tmp/a.pdf', fileName: 'a.pdf' }
+
+    expect(hookup({ file: { path: 'filePath', name: 'fileName' } }, source)).toEqual({
+      file: { path: '/tmp/a.pdf', name: 'a.pdf' },
+    })
+    // Any selector option makes a selector, whatever its value
+    expect(hookup({ file: { path: 'filePath', default: 'fileName' } }, source)).toEqual({
+      file: '/tmp/a.pdf',
+    })
+  })
+})
+
+describe('hookup result mode', () => {
+  const resultSchema = {
+    name: '_firstName',
+    age: testSchema.age,
+    contact: {
+      email: {
+        path: 'contactInfo.email',
+        validators: Validators.maxLength(10),
+      },
+    },
+  }
+
+  it('Should keep data and errors apart', () => {
+    const result = hookup(resultSchema, testSource, { mode: 'result' })
+
+    expect(result.valid).toBe(false)
+    expect(result.value).toEqual({
+      name: 'Miro',
+      age: 10,
+      contact: { email: 'miro@mediumwarmmail.com' },
+    })
+    expect(result.errors).toEqual({
+      age: { min: { min: 12, actual: 10 } },
+      contact: { email: { maxlength: { maxLength: 10, actual: 23 } } },
+    })
+  })
+
+  it('Should omit failing fields when asked to', () => {
+    const result = hookup(resultSchema, testSource, { mode: 'result', invalid: 'omit' })
+
+    expect(result.value).toEqual({ name: 'Miro', contact: {} })
+  })
+
+  it('Should report errors per index for array sources', () => {
+    const result = hookup(resultSchema, [{ ...testSource, Age: 30 }, testSource], {
+      mode: 'result',
+      invalid: 'omit',
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors[0]).toEqual({
+      contact: { email: { maxlength: { maxLength: 10, actual: 23 } } },
+    })
+    expect(result.errors[1]).toHaveProperty('age')
+  })
+
+  it('Should be valid when nothing fails', () => {
+    const result = hookup({ name: '_firstName' }, testSource, { mode: 'result' })
+
+    expect(result).toEqual({ value: { name: 'Miro' }, errors: null, valid: true })
+  })
+})
+
+describe('hookup type coercion', () => {
+  const querySource = { age: '12', active: 'false', since: '2021-06-01', tags: 'cook', zip: 'abc' }
+
+  it('Should coerce values to the declared type', () => {
+    const data: { age: number; active: boolean; since: Date; tags: string[] } = hookup(
+      {
+        age: { path: 'age', type: 'integer', validators: Validators.min(10) },
+        active: { path: 'active', type: 'boolean' },
+        since: { path: 'since', type: 'date' },
+        tags: { path: 'tags', type: 'array' },
+      },
+      querySource
+    )
+
+    expect(data).toEqual({
+      age: 12,
+      active: false,
+      since: new Date('2021-06-01'),
+      tags: ['cook'],
+    })
+  })
+
+  it('Should report values that cannot be coerced as validation errors', () => {
+    const result = hookup(
+      { zip: { path: 'zip', type: 'number', validators: Validators.min(10) } },
+      querySource,
+      { mode: 'result' }
+    )
+
+    expect(result).toEqual({
+      value: { zip: 'abc' },
+      errors: { zip: { type: { expected: 'number', actual: 'abc' } } },
+      valid: false,
+    })
+  })
+})
+
+describe('hookup group validation', () => {
+  const signup = {
+    password: 'secret',
+    confirmation: 'secrte',
+    contact: { channel: 'email', email: '', phone: '' },
+  }
+  const passwordsMatch = (group: Record<string, any>) =>
+    group.password === group.confirmation ? null : { mismatch: true }
+
+  it('Should pass the resolved group to group validators', () => {
+    const result = hookup(
+      { password: 'password', confirmation: 'confirmation', $validators: [passwordsMatch] },
+      signup,
+      { mode: 'result' }
+    )
+
+    expect(result).toEqual({
+      value: { password: 'secret', confirmation: 'secrte' },
+      errors: { $errors: { mismatch: true } },
+      valid: false,
+    })
+    expect(hookup({ password: 'password', $validators: passwordsMatch }, signup)).toEqual({
+      password: 'secret',
+      $errors: [{ mismatch: true }],
+    })
+  })
+
+  it('Should require fields depending on their siblings', async () => {
+    const schema = {
+      contact: {
+        channel: 'contact.channel',
+        email: {
+          path: 'contact.email',
+          validators: Validators.requiredIf('channel', 'email'),
+        },
+        phone: {
+          path: 'contact.phone',
+          validators: Validators.requiredUnless(
+            'channel',
+            (channel: string) => channel !== 'phone'
+          ),
+        },
+      },
+    }
+    const expected = {
+      value: { contact: { channel: 'email', email: '', phone: '' } },
+      errors: { contact: { email: { required: true } } },
+      valid: false,
+    }
+
+    expect(hookup(schema, signup, { mode: 'result' })).toEqual(expected)
+    expect(await hookupAsync(schema, signup, { mode: 'result' })).toEqual(expected)
+  })
+
+  it('Should run async group validators', async () => {
+    const result = await hookupAsync(
+      {
+        password: 'password',
+        contact: {
+          email: 'contact.email',
+          $asyncValidators: async (group: Record<string, any>) =>
+            group.email ? null : { unreachable: true },
+        },
+      },
+      signup,
+      { mode: 'result' }
+    )
+
+    expect(result.errors).toEqual({ contact: { $errors: { unreachable: true } } })
+  })
+
+  it('Should validate a FieldGroup and its fields', () => {
+    const group = new FieldGroup({ password: 'password', confirmation: 'confirmation' }, [
+      passwordsMatch,
+    ])
+
+    group.fields.confirmation.setValidators(Validators.requiredIf('password'))
+    group.fields.password.value = 'secret'
+    group.fields.confirmation.value = ''
+
+    expect(group.validate()).toEqual({ mismatch: true })
+    expect(group.fields.confirmation.errors).toEqual({ required: true })
+    expect(group.valid).toBe(false)
+  })
+})
+
+describe('hookup context', () => {
+  const order = {
+    currency: 'EUR',
+    lines: [
+      { sku: 'a1', qty: 2 },
+      { sku: 'b2', qty: 1 },
+    ],
+  }
+  const context = { names: { a1: 'Apple', b2: 'Banana' } }
+
+  it('Should pass the mapping context to FieldFns, transforms and validators', () => {
+    const seen: MappingContext[] = []
+    const data = hookup(
+      {
+        lines: {
+          path: 'lines',
+          each: {
+            position: (_src, ctx: MappingContext) => ctx.index + 1,
+            name: {
+              path: 'sku',
+              transform: (sku: string, ctx: MappingContext<typeof context>) =>
+                ctx.context.names[sku],
+              validators: (_value, ctx: MappingContext) => {
+                seen.push(ctx)
+
+                return null
+              },
+            },
+            currency: (_src, ctx: MappingContext) => ctx.parent.currency,
+          },
+        },
+      },
+      order,
+      { context }
+    )
+
+    expect(data).toEqual({
+      lines: [
+        { position: 1, name: 'Apple', currency: 'EUR' },
+        { position: 2, name: 'Banana', currency: 'EUR' },
+      ],
+    })
+    expect(seen[1]).toEqual({
+      context,
+      source: order.lines[1],
+      root: order,
+      parent: order,
+      index: 1,
+      path: ['lines', '1', 'name'],
+      target: { position: 2, name: 'Banana', currency: 'EUR' },
+    })
+  })
+
+  it('Should pass the fields resolved so far as the target', () => {
+    const schema = {
+      qty: 'lines.0.qty',
+      double: (_src, { target }: MappingContext) => target.qty * 2,
+    }
+
+    expect(hookup(schema, order)).toEqual({ qty: 2, double: 4 })
+  })
+})
+
+describe('hookup joins', () => {
+  const customers = [
+    { id: 1, name: 'Miro' },
+    { id: 2, name: 'Ana' },
+  ]
+  const products = [
+    { sku: 'a1', title: 'Apple' },
+    { sku: 'b2', title: 'Banana' },
+  ]
+  const orders = [
+    { id: 10, customerId: 1, skus: ['a1', 'b2'] },
+    { id: 11, customerId: 3, skus: ['b2', 'c3'] },
+  ]
+  const datasets = { customers, products, orders }
+
+  it('Should join referenced items and map them with a schema', () => {
+    const data = hookup(
+      {
+        id: 'id',
+        customer: { path: 'customerId', join: { from: 'customers', on: 'id' } },
+        products: {
+          path: 'skus',
+          join: { from: 'products', on: 'sku', schema: { title: 'title' }, missing: 'omit' },
+        },
+      },
+      orders,
+      { datasets }
+    )
+
+    expect(data).toEqual([
+      { id: 10, customer: customers[0], products: [{ title: 'Apple' }, { title: 'Banana' }] },
+      { id: 11, customer: undefined, products: [{ title: 'Banana' }] },
+    ])
+  })
+
+  it('Should join every matching item in one-to-many joins', async () => {
+    const schema = {
+      name: 'name',
+      orders: {
+        path: 'id',
+        join: { from: 'orders', on: 'customerId', many: true, schema: { id: 'id' } },
+      },
+    }
+
+    expect(await hookupAsync(schema, customers, { datasets })).toEqual([
+      { name: 'Miro', orders: [{ id: 10 }] },
+      { name: 'Ana', orders: [] },
+    ])
+  })
+
+  it('Should only index a dataset once per call', () => {
+    let reads = 0
+    const counted = customers.map((customer) => ({
+      get id() {
+        reads++
+
+        return customer.id
+      },
+    }))
+
+    hookup({ customer: { path: 'customerId', join: { from: 'customers', on: 'id' } } }, orders, {
+      datasets: { customers: counted },
+    })
+
+    expect(reads).toEqual(counted.length)
+  })
+
+  it('Should throw on missing references when asked to', () => {
+    const map = () =>
+      hookup(
+        {
+          customer: { path: 'customerId', join: { from: 'customers', on: 'id', missing: 'throw' } },
+        },
+        orders,
+        { datasets }
+      )
+
+    expect(map).toThrow(MissingReferenceError)
+    expect(map).toThrow(
+      'No item of the dataset "customers" has 3 at "id", as referenced by the schema key "customer".'
+    )
+  })
+})
+
+describe('hookup missing paths', () => {
+  const typoSchema = { name: '_firstName', email: 'contactInfo.emial.x' }
+  // Paths that don't exist in a typed source are compile errors, so read from an untyped one
+  const untypedSource: Record<string, any> = testSource
+
+  it('Should not put intermediate objects in the output', () => {
+    expect(hookup(typoSchema, testSource)).toEqual({ name: 'Miro', email: undefined })
+  })
+
+  it('Should apply the missing-path policy', () => {
+    expect(hookup(typoSchema, testSource, { missing: 'null' })).toEqual({
+      name: 'Miro',
+      email: null,
+    })
+    expect(hookup(typoSchema, testSource, { missing: 'omit' })).toEqual({ name: 'Miro' })
+  })
+
+  it('Should name the schema key and path in strict mode', () => {
+    expect(() => hookup({ contact: typoSchema }, testSource, { missing: 'throw' })).toThrow(
+      'Could not resolve the path "contactInfo.emial.x" for the schema key "contact.email": ' +
+        'nothing was found at "contactInfo.emial".'
+    )
+  })
+
+  it('Should try fallback paths in order, then the default', () => {
+    const data = hookup(
+      {
+        email: { path: 'contactInfo.emial', fallbacks: ['email', 'contactInfo.email'] },
+        phone: { path: 'contactInfo.phone', default: 'n/a', missing: 'throw' },
+      },
+      untypedSource
+    )
+
+    expect(data).toEqual({ email: 'miro@mediumwarmmail.com', phone: 'n/a' })
+  })
+})
+
+describe('hookup each', () => {
+  const employmentSource = {
+    name: 'Miro',
+    jobs: [
+      { title: 'cook', company: 'Macrobiotic Booger Bakery', years: 2 },
+      { title: 'baker', company: 'Loaf Life', years: 5 },
+      { title: 'barista', company: 'Bean There', years: 1 },
+    ],
+  }
+
+  it('Should map every item through the sub-schema', () => {
+    const data = hookup(
+      {
+        jobs: {
+          path: 'jobs',
+          each: { title: 'title', employer: 'company', employee: '$parent.name' },
+        },
+      },
+      employmentSource
+    )
+
+    expect(data).toEqual({
+      jobs: [
+        { title: 'cook', employer: 'Macrobiotic Booger Bakery', employee: 'Miro' },
+        { title: 'baker', employer: 'Loaf Life', employee: 'Miro' },
+        { title: 'barista', employer: 'Bean There', employee: 'Miro' },
+      ],
+    })
+  })
+
+  it('Should filter, sort and limit the items', () => {
+    const data = hookup(
+      {
+        jobs: {
+          path: 'jobs',
+          each: { title: 'title' },
+          filter: (job) => job.title !== 'cook',
+          sort: '-years',
+          limit: 1,
+        },
+      },
+      employmentSource
+    )
+
+    expect(data).toEqual({ jobs: [{ title: 'baker' }] })
+  })
+
+  it('Should report item errors by index', async () => {
+    const schema = {
+      jobs: {
+        path: 'jobs',
+        each: { years: { path: 'years', validators: Validators.min(2) } },
+      },
+    }
+    const expected = { jobs: { 2: { years: { min: { min: 2, actual: 1 } } } } }
+
+    expect(hookup(schema, employmentSource, { mode: 'result' }).errors).toEqual(expected)
+    expect((await hookupAsync(schema, employmentSource, { mode: 'result' })).errors).toEqual(
+      expected
+    )
+  })
+})
+
+describe('hookup named validators', () => {
+  Validators.register('companyEmail', (email: string) =>
+    !email || email.endsWith('@mediumwarmmail.com') ? null : { companyEmail: true }
+  ).registerAsyncFactory(
+    'available',
+    (...taken: string[]) =>
+      async (value: string) =>
+        taken.includes(value) ? { available: false } : null
+  )
+
+  it('Should resolve validators referenced by name', async () => {
+    const schema = {
+      name: { path: '_firstName', asyncValidators: [['available', 'Miro']] },
+      email: {
+        path: 'contactInfo.email',
+        validators: ['required', ['maxLength', 20], 'companyEmail'],
+      },
+    }
+
+    expect(hookup(schema, testSource, { mode: 'result' }).errors).toEqual({
+      email: { maxlength: { maxLength: 20, actual: 23 } },
+    })
+    expect((await hookupAsync(schema, testSource, { mode: 'result' })).errors).toEqual({
+      name: { available: false },
+      email: { maxlength: { maxLength: 20, actual: 23 } },
+    })
+    expect(
+      hookup({ email: { path: 'email', validators: 'companyEmail' } }, { email: 'a@b.c' })
+    ).toEqual({ email: [{ companyEmail: true }] })
+  })
+
+  it('Should resolve them in fields', () => {
+    const group = new FieldGroup({
+      email: { path: 'email', validators: ['required', 'companyEmail'] },
+    })
+
+    group.fields.email.setValue('miro@example.com')
+
+    expect(group.fields.email.errors).toEqual({ companyEmail: true })
+  })
+
+  it('Should list the available validators when a name is unknown', () => {
+    expect(() => hookup({ email: { path: 'email', validators: ['companyMail'] } }, {})).toThrow(
+      /^Unknown validator "companyMail"\. Available validators: "companyEmail", "dateAfter", .*"uuid"\.$/
+    )
+    expect(() => Validators.resolveAsync('unknown')).toThrow(
+      'Unknown async validator "unknown". Available async validators: "available".'
+    )
+    expect(() => Validators.resolveAll([12 as any])).toThrow(
+      'Expected a validator, a name or a [name, ...args] tuple but got 12.'
+    )
+  })
+})
+
+describe('hookupAsync', () => {
+  const delay = <T>(value: T, ms = 5) =>
+    new Promise<T>((resolve) => setTimeout(() => resolve(value), ms))
+
+  const asyncSchema = {
+    name: '_firstName',
+    city: async (src) => delay(src.address.city),
+    firstJob: {
+      path: 'jobs.0.title',
+      transform: async (x: string) => delay(x.toUpperCase()),
+    },
+    age: {
+      path: 'Age',
+      asyncValidators: async (x: number) => delay(x < 12 ? { minAge: 12 } : null),
+    },
+  }
+
+  it('Should await FieldFns and transforms', async () => {
+    const result = (await hookupAsync(asyncSchema, testSource)) as Record<string, any>
+
+    expect(result.city).toEqual('Astoria')
+    expect(result.firstJob).toEqual('COOK')
+  })
+
+  it('Should run async validators', async () => {
+    const result = (await hookupAsync(asyncSchema, testSource)) as Record<string, any>
+
+    expect(result.age).toEqual([{ minAge: 12 }])
+  })
+
+  it('Should limit concurrency when mapping array sources', async () => {
+    let running = 0
+    let maxRunning = 0
+    const schema = {
+      name: async (src) => {
+        running++
+        maxRunning = Math.max(running, maxRunning)
+        await delay(null)
+        running--
+
+        return src._firstName
+      },
+    }
+    const sources = Array.from({ length: 6 }, (_, i) => ({ _firstName: `Miro ${i}` }))
+    const result = (await hookupAsync(schema, sources, { concurrency: 2 })) as any[]
+
+    expect(result.map((o) => o.name)).toEqual(sources.map((o) => o._firstName))
+    expect(maxRunning).toEqual(2)
+  })
+})
@@ -1,85 +1,891 @@
-import { FieldAccessorType, FieldSelector } from './types'
-import { get, isFieldSelector, isFunction, isPlainObject, isString, set } from './utils'
+import { collect } from './aggregates'
+import { Datasets } from './datasets'
+import { ErrorTree, GROUP_ERRORS, MissingPathError, MissingReferenceError } from './errors'
+import { flatten, unflatten } from './flatten'
+import { aggregate, parsePath, PathResolution, resolvePath, stringifyPath } from './path'
+import {
+  AsyncValidatorFn,
+  AsyncValidatorLike,
+  Collected,
+  FieldAccessorType,
+  FieldJoin,
+  FieldSelector,
+  FlattenOptions,
+  HookupAsyncOptions,
+  HookupOptions,
+  Infer,
+  MappingContext,
+  MappingResult,
+  NoInfer,
+  Reshaped,
+  SchemaShape,
+  ValidationErrors,
+  ValidatorFn,
+  ValidatorLike,
+  ValidSchema,
+} from './types'
+import {
+  castArray,
+  clone,
+  coerceToType,
+  get,
+  GROUP_ASYNC_VALIDATORS,
+  GROUP_VALIDATORS,
+  isAsyncFunction,
+  isEmptyObject,
+  isFieldSelector,
+  isFunction,
+  isGroupValidatorKey,
+  isNil,
+  isNull,
+  isNumber,
+  isPlainObject,
+  isString,
+  mapConcurrent,
+} from './utils'
+import { Transforms } from './transforms'
 import { Validators } from './validators'
 
+interface ResolveState {
+  options: HookupOptions
+  errors: ErrorTree
+  /**
+   * The schema keys leading to the sub-schema being resolved.
+   */
+  path: string[]
+  /**
+   * The source passed to `hookup`, reachable from any path through the `$root` prefix.
+   */
+  root: object
+  /**
+   * The source of the enclosing schema when resolving an `each` sub-schema, reachable from any
+   * path through the `$parent` prefix.
+   */
+  parent?: object
+  /**
+   * The index of the nearest enclosing array item, either of the array passed to `hookup` or of
+   * the one an `each` sub-schema maps.
+   */
+  index?: number
+  /**
+   * The datasets of the `hookup` call, shared by every schema it resolves so that each is only
+   * indexed once.
+   */
+  datasets: Datasets
+}
+
+/**
+ * The context passed to the FieldFns, transforms and validators of the field `key`, or to the
+ * group validators of the schema being resolved when `key` is omitted.
+ */
+function toContext(
+  state: ResolveState,
+  source: object,
+  group: object,
+  key?: string
+): MappingContext {
+  return {
+    context: state.options.context,
+    source,
+    root: state.root,
+    parent: state.parent,
+    index: state.index,
+    path: key === undefined ? state.path : [...state.path, key],
+    target: group,
+  }
+}
+
+/**
+ * Marks a field that the `'omit'` missing-path policy leaves out of the target.
+ */
+const OMITTED = Symbol('omitted')
+
 function getActionType(key: string, value: unknown): FieldAccessorType {
   if (isString(value)) return FieldAccessorType.FieldPaths
-  if (isFunction(value)) return FieldAccessorType.FieldFn
+  if (isFunction(value) || isAsyncFunction(value)) return FieldAccessorType.FieldFn
   if (isFieldSelector(value)) return FieldAccessorType.FieldSelector
   if (Array.isArray(value)) return FieldAccessorType.FieldAggregator
   if (isPlainObject(value)) return FieldAccessorType.FieldEntry
   throw new Error(`The value type specified for ${key} is not supported.`)
 }
 
+/**
+ * Resolves a path against the source, or against the root or parent source when the path starts
+ * with `$root` or `$parent`.
+ */
+function resolveScoped<Source extends object = object>(
+  source: Source,
+  path: string,
+  state: ResolveState
+): PathResolution {
+  const [head, ...rest] = parsePath(path)
+
+  if (head && head.type === 'key' && (head.key === '$root' || head.key === '$parent')) {
+    const resolution = resolvePath(head.key === '$root' ? state.root : state.parent, rest)
+
+    return { ...resolution, depth: resolution.depth + 1 }
+  }
+
+  return resolvePath(source, path)
+}
+
+/**
+ * Reads the first of `paths` that exists in the source. When none of them do, the field falls
+ * back to the selector's `default` or is handled by the missing-path policy.
+ */
+function read<Source extends object = object>(
+  source: Source,
+  paths: string[],
+  key: string,
+  state: ResolveState,
+  fieldSelector: Partial<FieldSelector> = {}
+): { found: boolean; value: any } {
+  let missing: PathResolution
+
+  for (const path of paths) {
+    const resolution = resolveScoped(source, path, state)
+
+    if (resolution.found) return resolution
+
+    missing = missing || resolution
+  }
+
+  if ('default' in fieldSelector) {
+    return { found: true, value: clone(fieldSelector.default) }
+  }
+
+  switch (fieldSelector.missing || state.options.missing) {
+    case 'throw':
+      const unresolved = stringifyPath(parsePath(paths[0]).slice(0, missing.depth + 1))
+
+      throw new MissingPathError([...state.path, key].join('.'), paths, unresolved)
+
+    case 'omit':
+      return { found: false, value: OMITTED }
+
+    case 'null':
+      return { found: false, value: null }
+
+    case 'undefined':
+    default:
+      return { found: false, value: undefined }
+  }
+}
+
+/**
+ * Reads a `FieldSelector.path`, which is either a single path or a list of paths to aggregate.
+ */
+function select<Source extends object = object>(
+  source: Source,
+  fieldSelector: FieldSelector,
+  key: string,
+  state: ResolveState
+) {
+  if (Array.isArray(fieldSelector.path)) {
+    return { found: true, value: aggregate(source, fieldSelector.path as string[]) }
+  }
+
+  const paths = [fieldSelector.path, ...(fieldSelector.fallbacks || [])] as string[]
+
+  return read(source, paths, key, state, fieldSelector)
+}
+
+function toComparator(sort: FieldSelector['sort']): (a: any, b: any) => number {
+  if (isFunction(sort)) return sort as (a: any, b: any) => number
+
+  const descending = (sort as string).startsWith('-')
+  const path = descending ? (sort as string).slice(1) : (sort as string)
+
+  return (a, b) => {
+    const [x, y] = [get(a, path), get(b, path)]
+    const order = x < y ? -1 : x > y ? 1 : 0
+
+    return descending ? -order : order
+  }
+}
+
+/**
+ * Applies the `filter`, `sort` and `limit` options of a `FieldSelector` to the items that its
+ * `each` schema maps.
+ */
+function selectItems(items: any[], fieldSelector: FieldSelector): any[] {
+  const { filter, sort, limit } = fieldSelector
+  let selected = filter ? items.filter(filter) : items.slice()
+
+  if (sort) {
+    selected.sort(toComparator(sort))
+  }
+
+  if (isNumber(limit)) {
+    selected = selected.slice(0, limit)
+  }
+
+  return selected
+}
+
+/**
+ * Maps every item of an array through the `each` schema of a `FieldSelector`, using the item as
+ * the source. A plain object is mapped as a single item.
+ */
+function mapEach<Source extends object = object>(
+  value: any,
+  fieldSelector: FieldSelector,
+  source: Source,
+  state: ResolveState
+) {
+  if (isPlainObject(value)) {
+    return resolveSchema(fieldSelector.each, value, { ...state, parent: source })
+  }
+
+  if (!Array.isArray(value)) return value
+
+  return selectItems(value, fieldSelector).map((item, i) => {
+    const errors = new ErrorTree()
+    const path = [...state.path, String(i)]
+    const mapped = resolveSchema(fieldSelector.each, item, {
+      ...state,
+      errors,
+      path,
+      parent: source,
+      index: i,
+    })
+
+    if (!isEmptyObject(errors)) {
+      state.errors[i] = errors
+    }
+
+    return mapped
+  })
+}
+
+async function mapEachAsync<Source extends object = object>(
+  value: any,
+  fieldSelector: FieldSelector,
+  source: Source,
+  state: ResolveState
+) {
+  if (isPlainObject(value)) {
+    return resolveSchemaAsync(fieldSelector.each, value, { ...state, parent: source })
+  }
+
+  if (!Array.isArray(value)) return value
+
+  const items = selectItems(value, fieldSelector)
+  const trees = items.map(() => new ErrorTree())
+  const mapped = await Promise.all(
+    items.map((item, i) => {
+      const path = [...state.path, String(i)]
+
+      return resolveSchemaAsync(fieldSelector.each, item, {
+        ...state,
+        errors: trees[i],
+        path,
+        parent: source,
+        index: i,
+      })
+    })
+  )
+
+  trees.forEach((errors, i) => {
+    if (!isEmptyObject(errors)) {
+      state.errors[i] = errors
+    }
+  })
+
+  return mapped
+}
+
+/**
+ * Replaces the reference read by a `FieldSelector`, or every reference of a list, with the
+ * dataset items it matches. Returns `OMITTED` when the field is left out of the target.
+ */
+function lookup(value: any, join: FieldJoin, key: string, state: ResolveState) {
+  if (isNil(value)) return value
+
+  const { from, on } = join
+
+  if (join.many) {
+    return castArray(value).reduce(
+      (items: object[], reference) => [...items, ...state.datasets.lookup(from, on, reference)],
+      []
+    )
+  }
+
+  const find = (reference: unknown) => {
+    const [item] = state.datasets.lookup(from, on, reference)
+
+    if (item) return item
+
+    switch (join.missing) {
+      case 'throw':
+        throw new MissingReferenceError([...state.path, key].join('.'), from, on, reference)
+
+      case 'omit':
+        return OMITTED
+
+      case 'null':
+        return null
+
+      case 'undefined':
+      default:
+        return undefined
+    }
+  }
+
+  return Array.isArray(value) ? value.map(find).filter((item) => item !== OMITTED) : find(value)
+}
+
+/**
+ * Coerces a value read by a `FieldSelector` to its `type`. A value that can't be coerced is
+ * returned as it is, along with a `type` validation error.
+ */
+function coerce(fieldSelector: FieldSelector, value: any) {
+  const coercion = coerceToType(value, fieldSelector.type)
+
+  return coercion.coerced
+    ? { value: coercion.value, errors: null }
+    : { value, errors: [{ type: { expected: fieldSelector.type, actual: value } }] }
+}
+
+/**
+ * Applies the transforms of a `FieldSelector` in order, awaiting each of them before the next.
+ */
+async function transformAsync(fieldSelector: FieldSelector, value: any, context: MappingContext) {
+  let result = value
+
+  for (const transform of castArray(fieldSelector.transform)) {
+    result = await transform(result, context)
+  }
+
+  return result
+}
+
+/**
+ * Runs synchronous validators, returning the list of failed validations or null if the value
+ * passed all of them.
+ */
+function runValidators(
+  validators: ValidatorFn | string | ValidatorLike[] | undefined,
+  input: unknown,
+  context: MappingContext
+): ValidationErrors[] | null {
+  if (!validators) return null
+
+  // ex: (x) => x.length <= 10 //=> null if passes, else object containing info about validation failure
+  const validatorFn = Validators.mergeValidators(...Validators.resolveAll(validators))
+  const errors = validatorFn ? validatorFn(input, context).filter(Boolean) : []
+
+  return errors.length ? errors : null
+}
+
+/**
+ * Runs asynchronous validators, merging the errors they resolve to into a single entry that is
+ * appended to `errors`.
+ */
+async function runAsyncValidators(
+  errors: ValidationErrors[] | null,
+  validators: AsyncValidatorFn | string | AsyncValidatorLike[] | undefined,
+  input: unknown,
+  context: MappingContext
+): Promise<ValidationErrors[] | null> {
+  const validatorFn = validators
+    ? Validators.composeAsync(Validators.resolveAllAsync(validators))
+    : null
+  const asyncErrors = validatorFn ? await validatorFn(input, context) : null
+
+  if (!asyncErrors) return errors
+
+  return [...(errors || []), asyncErrors]
+}
+
+function validate(fieldSelector: FieldSelector, value: unknown, context: MappingContext) {
+  return runValidators(fieldSelector.validators, value, context)
+}
+
+async function validateAsync(
+  fieldSelector: FieldSelector,
+  value: unknown,
+  context: MappingContext
+) {
+  const errors = validate(fieldSelector, value, context)
+
+  return runAsyncValidators(errors, fieldSelector.asyncValidators, value, context)
+}
+
+async function validateGroupAsync(schema: object, group: object, context: MappingContext) {
+  const errors = runValidators(schema[GROUP_VALIDATORS], group, context)
+
+  return runAsyncValidators(errors, schema[GROUP_ASYNC_VALIDATORS], group, context)
+}
+
+/**
+ * Writes a resolved field to the target, routing any failed validations either into the value
+ * (`'inline'` mode) or into the error tree (`'result'` mode). `children` holds the errors of the
+ * sub-schema that produced the value, if any.
+ */
+function assignField(
+  obj: object,
+  key: string,
+  value: any,
+  errors: ValidationErrors[] | null,
+  children: ErrorTree | null,
+  state: ResolveState
+) {
+  if (value === OMITTED) return
+
+  if (errors && state.options.mode !== 'result') {
+    obj[key] = errors
+
+    return
+  }
+
+  const tree = children && !isEmptyObject(children) ? children : null
+
+  if (errors) {
+    const fieldErrors = Validators.mergeErrors(errors)
+
+    state.errors[key] = tree ? Object.assign(tree, { [GROUP_ERRORS]: fieldErrors }) : fieldErrors
+
+    if (state.options.invalid === 'omit') return
+  } else if (tree) {
+    state.errors[key] = tree
+  }
+
+  obj[key] = value
+}
+
+/**
+ * Applies the `flatten` and `unflatten` options of `hookup` to a target.
+ */
+function reshape(target: object, options: HookupOptions) {
+  const toOptions = (option: true | FlattenOptions) => (option === true ? {} : option)
+
+  if (options.flatten && options.unflatten) {
+    throw new TypeError('The flatten and unflatten options cannot be combined.')
+  }
+
+  if (options.flatten) return flatten(target, toOptions(options.flatten))
+
+  if (options.unflatten) return unflatten(target, toOptions(options.unflatten))
+
+  return target
+}
+
+function toMappingResult(value: any, errors: ErrorTree | ErrorTree[]): MappingResult {
+  if (Array.isArray(errors)) {
+    const indexedErrors = errors.map((tree) => (isEmptyObject(tree) ? null : tree))
+    const valid = indexedErrors.every(isNull)
+
+    return { value, errors: valid ? null : indexedErrors, valid }
+  }
+
+  const valid = isEmptyObject(errors)
+
+  return { value, errors: valid ? null : errors, valid }
+}
+
+/**
+ * A field of a schema once its value has been resolved. Validators only run once every field of
+ * the schema is resolved, since they receive the values of their sibling fields.
+ */
+interface ResolvedField {
+  key: string
+  value: any
+  /**
+   * The selector whose validators are yet to run, if any.
+   */
+  fieldSelector?: FieldSelector
+  /**
+   * Errors found while resolving the field, which skip its validators.
+   */
+  errors?: ValidationErrors[] | null
+  children?: ErrorTree | null
+}
+
+/**
+ * The entries of a schema that describe fields, leaving out its group validators.
+ */
+const fieldEntries = (schema: object) =>
+  Object.entries(schema).filter(([k]) => !isGroupValidatorKey(k))
+
+/**
+ * Collects the resolved values of a schema's fields, which its FieldFns and validators receive
+ * as the group they belong to.
+ */
+function toGroup(fields: ResolvedField[], group = {}) {
+  fields.forEach(({ key, value }) => {
+    if (value !== OMITTED) {
+      group[key] = value
+    }
+  })
+
+  return group
+}
+
+/**
+ * Writes the errors of a schema's group validators to the target in `'inline'` mode, or to the
+ * error tree under `GROUP_ERRORS` in `'result'` mode.
+ */
+function assignGroupErrors(obj: object, errors: ValidationErrors[] | null, state: ResolveState) {
+  if (!errors) return
+
+  if (state.options.mode === 'result') {
+    state.errors[GROUP_ERRORS] = Validators.mergeErrors(errors)
+  } else {
+    obj[GROUP_ERRORS] = errors
+  }
+}
+
+function resolveField<Source extends object = object>(
+  k: string,
+  v: unknown,
+  source: Source,
+  group: object,
+  state: ResolveState
+): ResolvedField {
+  const actionType = getActionType(k, v)
+
+  switch (actionType) {
+    case FieldAccessorType.FieldFn:
+      return { key: k, value: (v as Function)(source, toContext(state, source, group, k)) }
+
+    case FieldAccessorType.FieldAggregator:
+      return { key: k, value: aggregate(source, v as string[]) }
+
+    case FieldAccessorType.FieldSelector:
+      const fieldSelector: FieldSelector = v as FieldSelector
+      const selection = select(source, fieldSelector, k, state)
+      let value = selection.value
+      let children: ErrorTree | null = null
+
+      if (selection.found && 'type' in fieldSelector) {
+        const coercion = coerce(fieldSelector, value)
+
+        if (coercion.errors) return { key: k, value: coercion.value, errors: coercion.errors }
+
+        value = coercion.value
+      }
+
+      if (selection.found && 'join' in fieldSelector) {
+        value = lookup(value, fieldSelector.join, k, state)
+
+        if (value === OMITTED) return { key: k, value }
+
+        if (fieldSelector.join.schema) {
+          children = new ErrorTree()
+          value = mapEach(value, { path: k, each: fieldSelector.join.schema }, source, {
+            ...state,
+            errors: children,
+            path: [...state.path, k],
+          })
+        }
+      }
+
+      if (selection.found && 'each' in fieldSelector) {
+        children = new ErrorTree()
+        value = mapEach(value, fieldSelector, source, {
+          ...state,
+          errors: children,
+          path: [...state.path, k],
+        })
+      }
+
+      if (selection.found && 'transform' in fieldSelector) {
+        // ex: (x) => x.toUpperCase()
+        value = Transforms.pipe(...castArray(fieldSelector.transform))(
+          value,
+          toContext(state, source, group, k)
+        )
+      }
+
+      return { key: k, value, fieldSelector, children }
+
+    case FieldAccessorType.FieldEntry:
+      const errors = new ErrorTree()
+      const path = [...state.path, k]
+
+      return {
+        key: k,
+        value: resolveSchema(v as object, source, { ...state, errors, path }),
+        children: errors,
+      }
+
+    case FieldAccessorType.FieldPaths:
+    default:
+      return { key: k, value: read(source, [v as string], k, state).value }
+  }
+}
+
 function resolveSchema<Schema extends object = object, Source extends object = object>(
   schema: Schema,
-  source: Source
+  source: Source,
+  state: ResolveState
 ) {
-  return Object.entries(schema).reduce((obj, [k, v]) => {
-    let value: any
-    const actionType = getActionType(k, v)
-    // let hasValidationErrors = false
-
-    switch (actionType) {
-      case FieldAccessorType.FieldFn:
-        value = (v as Function)(source, obj)
-        break
-
-      case FieldAccessorType.FieldAggregator:
-        value = (v as string[]).reduce((agg, path) => {
-          const valueObj = set(agg, path, get(source, path))
-
-          Object.assign(agg, valueObj)
-          return agg
-        }, {})
-        break
-
-      case FieldAccessorType.FieldSelector:
-        const fieldSelector: FieldSelector = v as FieldSelector
-        let inputValue = get(source, fieldSelector.path as string)
-
-        if ('transform' in fieldSelector) {
-          // ex: (x) => x.toUpperCase()
-          inputValue = fieldSelector.transform(inputValue)
-        }
-        if ('validators' in fieldSelector) {
-          const validators = Array.isArray(fieldSelector.validators)
-            ? fieldSelector.validators
-            : [fieldSelector.validators]
-          // ex: (x) => x.length <= 10 //=> null if passes, else object containing info about validation failure
-          const validatorFn = Validators.mergeValidators(...validators)
-          const validation = validatorFn(inputValue)
-          if (validation) {
-            value = validation
-            break
-          }
+  const group = {}
+  // FieldFns receive the group as it's being resolved, holding the fields that precede them
+  const fields = fieldEntries(schema).map(([k, v]) => {
+    const field = resolveField(k, v, source, group, state)
+
+    toGroup([field], group)
+
+    return field
+  })
+  const obj = {}
+
+  fields.forEach(({ key, value, fieldSelector, errors = null, children = null }) => {
+    const context = toContext(state, source, group, key)
+    const fieldErrors =
+      errors ||
+      (fieldSelector && value !== OMITTED ? validate(fieldSelector, value, context) : null)
+
+    assignField(obj, key, value, fieldErrors, children, state)
+  })
+
+  const groupErrors = runValidators(
+    schema[GROUP_VALIDATORS],
+    group,
+    toContext(state, source, group)
+  )
+
+  assignGroupErrors(obj, groupErrors, state)
+
+  return obj
+}
+
+async function resolveFieldAsync<Source extends object = object>(
+  k: string,
+  v: unknown,
+  source: Source,
+  group: object,
+  state: ResolveState
+): Promise<ResolvedField> {
+  const actionType = getActionType(k, v)
+
+  switch (actionType) {
+    case FieldAccessorType.FieldFn:
+      return { key: k, value: await (v as Function)(source, toContext(state, source, group, k)) }
+
+    case FieldAccessorType.FieldSelector:
+      const fieldSelector: FieldSelector = v as FieldSelector
+      const selection = select(source, fieldSelector, k, state)
+      let value = selection.value
+      let children: ErrorTree | null = null
+
+      if (selection.found && 'type' in fieldSelector) {
+        const coercion = coerce(fieldSelector, value)
+
+        if (coercion.errors) return { key: k, value: coercion.value, errors: coercion.errors }
+
+        value = coercion.value
+      }
+
+      if (selection.found && 'join' in fieldSelector) {
+        value = lookup(value, fieldSelector.join, k, state)
+
+        if (value === OMITTED) return { key: k, value }
+
+        if (fieldSelector.join.schema) {
+          children = new ErrorTree()
+          value = await mapEachAsync(value, { path: k, each: fieldSelector.join.schema }, source, {
+            ...state,
+            errors: children,
+            path: [...state.path, k],
+          })
         }
+      }
 
-        value = inputValue
-        break
+      if (selection.found && 'each' in fieldSelector) {
+        children = new ErrorTree()
+        value = await mapEachAsync(value, fieldSelector, source, {
+          ...state,
+          errors: children,
+          path: [...state.path, k],
+        })
+      }
 
-      case FieldAccessorType.FieldEntry:
-        value = resolveSchema(v, source)
-        break
+      if (selection.found && 'transform' in fieldSelector) {
+        value = await transformAsync(fieldSelector, value, toContext(state, source, group, k))
+      }
 
-      case FieldAccessorType.FieldPaths:
-      default:
-        value = get(source, v)
-        break
-    }
+      return { key: k, value, fieldSelector, children }
 
-    obj[k] = value
+    case FieldAccessorType.FieldEntry:
+      const errors = new ErrorTree()
+      const path = [...state.path, k]
+      const resolved = await resolveSchemaAsync(v as object, source, { ...state, errors, path })
 
-    return obj
-  }, {})
+      return { key: k, value: resolved, children: errors }
+
+    default:
+      return resolveField(k, v, source, group, state)
+  }
 }
 
-export function hookup<Schema extends object = object, Source extends object = object | object[]>(
+async function resolveSchemaAsync<Schema extends object = object, Source extends object = object>(
   schema: Schema,
-  source: Source
+  source: Source,
+  state: ResolveState
 ) {
+  const group = {}
+  // Fields are resolved concurrently, so the group handed to a FieldFn is only populated once
+  // every field of the schema has settled.
+  const fields = await Promise.all(
+    fieldEntries(schema).map(([k, v]) => resolveFieldAsync(k, v, source, group, state))
+  )
+
+  toGroup(fields, group)
+
+  const [fieldErrors, groupErrors] = await Promise.all([
+    Promise.all(
+      fields.map(({ key, value, fieldSelector, errors }) =>
+        errors || (fieldSelector && value !== OMITTED)
+          ? errors || validateAsync(fieldSelector, value, toContext(state, source, group, key))
+          : null
+      )
+    ),
+    validateGroupAsync(schema, group, toContext(state, source, group)),
+  ])
+  const obj = {}
+
+  fields.forEach(({ key, value, children = null }, i) => {
+    assignField(obj, key, value, fieldErrors[i], children, state)
+  })
+
+  assignGroupErrors(obj, groupErrors, state)
+
+  return obj
+}
+
+/**
+ * Maps a source, or every item of an array of sources, to the shape described by `schema`. The
+ * type of the target is inferred from the schema (see `Infer`), and paths that don't exist in
+ * the source are compile errors. The targets of an array source can be keyed, grouped or
+ * aggregated through the `keyBy`, `groupBy` and `aggregate` options.
+ */
+export function hookup<
+  S extends SchemaShape<P>,
+  P extends string,
+  Source extends object,
+  O extends HookupOptions
+>(
+  schema: ValidSchema<S, NoInfer<Source>>,
+  source: Source[],
+  options: O & { mode: 'result' }
+): MappingResult<Collected<Infer<S, Source>, O>>
+export function hookup<
+  S extends SchemaShape<P>,
+  P extends string,
+  Source extends object,
+  O extends HookupOptions = HookupOptions
+>(
+  schema: ValidSchema<S, NoInfer<Source>>,
+  source: Source[],
+  options?: O
+): Collected<Infer<S, Source>, O>
+export function hookup<
+  S extends SchemaShape<P>,
+  P extends string,
+  Source extends object,
+  O extends HookupOptions
+>(
+  schema: ValidSchema<S, NoInfer<Source>>,
+  source: Source,
+  options: O & { mode: 'result' }
+): MappingResult<Reshaped<Infer<S, Source>, O>>
+export function hookup<
+  S extends SchemaShape<P>,
+  P extends string,
+  Source extends object,
+  O extends HookupOptions = HookupOptions
+>(
+  schema: ValidSchema<S, NoInfer<Source>>,
+  source: Source,
+  options?: O
+): Reshaped<Infer<S, Source>, O>
+export function hookup<S extends object = object, Source extends object = object | object[]>(
+  schema: S,
+  source: Source,
+  options: HookupOptions = {}
+) {
+  const datasets = new Datasets(options.datasets)
+
   if (Array.isArray(source)) {
-    return source.map((o) => resolveSchema(schema, o))
+    const errors = source.map(() => new ErrorTree())
+    const items = source.map((o, i) =>
+      reshape(
+        resolveSchema(schema, o, {
+          options,
+          errors: errors[i],
+          path: [],
+          root: o,
+          index: i,
+          datasets,
+        }),
+        options
+      )
+    )
+    const value = collect(items, source, options)
+
+    return options.mode === 'result' ? toMappingResult(value, errors) : value
+  }
+
+  const errors = new ErrorTree()
+  const value = reshape(
+    resolveSchema(schema, source, { options, errors, path: [], root: source, datasets }),
+    options
+  )
+
+  return options.mode === 'result' ? toMappingResult(value, errors) : value
+}
+
+/**
+ * Maps a source to a schema like `hookup`, but awaits FieldFns and transforms that return a
+ * Promise and runs the `asyncValidators` declared on any `FieldSelector`.
+ */
+export async function hookupAsync<
+  Schema extends object = object,
+  Source extends object = object | object[]
+>(
+  schema: Schema,
+  source: Source,
+  options: HookupAsyncOptions & { mode: 'result' }
+): Promise<MappingResult>
+export async function hookupAsync<
+  Schema extends object = object,
+  Source extends object = object | object[]
+>(schema: Schema, source: Source, options?: HookupAsyncOptions): Promise<object | object[]>
+export async function hookupAsync<
+  Schema extends object = object,
+  Source extends object = object | object[]
+>(schema: Schema, source: Source, options: HookupAsyncOptions = {}) {
+  const { concurrency = Infinity } = options
+  const datasets = new Datasets(options.datasets)
+
+  if (Array.isArray(source)) {
+    const errors = source.map(() => new ErrorTree())
+    const items = await mapConcurrent(source, concurrency, async (o, i) =>
+      reshape(
+        await resolveSchemaAsync(schema, o, {
+          options,
+          errors: errors[i],
+          path: [],
+          root: o,
+          index: i,
+          datasets,
+        }),
+        options
+      )
+    )
+    const value = collect(items, source, options)
+
+    return options.mode === 'result' ? toMappingResult(value, errors) : value
   }
-  return resolveSchema(schema, source)
+
+  const errors = new ErrorTree()
+  const value = reshape(
+    await resolveSchemaAsync(schema, source, { options, errors, path: [], root: source, datasets }),
+    options
+  )
+
+  return options.mode === 'result' ? toMappingResult(value, errors) : value
 }
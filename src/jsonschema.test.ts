@@ -0,0 +1,279 @@
+import { SchemaFormatError } from './errors'
+import { hookup } from './index'
+import { compileJSONSchema, JSON_SCHEMA_DIALECT, toJSONSchema } from './jsonschema'
+import { loadSchema } from './loader'
+import { Transforms } from './transforms'
+import { patternValidator, Validators } from './validators'
+
+describe('toJSONSchema', () => {
+  it('Should translate types and built-in validators into keywords', () => {
+    const { schema, warnings } = toJSONSchema({
+      id: 'id',
+      name: {
+        path: 'name',
+        type: 'string',
+        validators: [Validators.required, Validators.maxLength(20)],
+      },
+      age: { path: 'age', type: 'integer', validators: [Validators.min(12), Validators.max(99)] },
+      zip: { path: 'zip', validators: patternValidator('[0-9]{5}') },
+      since: { path: 'since', type: 'date', default: new Date(Date.UTC(2020, 0, 1)) },
+      terms: { path: 'terms', type: 'boolean', validators: Validators.requiredTrue },
+      address: { city: 'city', location: ['lat', 'lng'] },
+      jobs: {
+        path: 'jobs',
+        each: { title: { path: 'title', validators: Validators.required } },
+        limit: 3,
+        validators: [Validators.minLength(1), Validators.uniqueItems()],
+      },
+    })
+
+    expect(warnings).toEqual([])
+    expect(schema).toEqual({
+      $schema: JSON_SCHEMA_DIALECT,
+      type: 'object',
+      properties: {
+        id: {},
+        name: { type: 'string', maxLength: 20 },
+        age: { type: 'integer', minimum: 12, maximum: 99 },
+        zip: { pattern: '^[0-9]{5}$' },
+        since: { type: 'string', format: 'date-time', default: '2020-01-01T00:00:00.000Z' },
+        terms: { type: 'boolean', const: true },
+        address: {
+          type: 'object',
+          properties: { city: {}, location: { type: 'object' } },
+        },
+        jobs: {
+          type: 'array',
+          items: { type: 'object', properties: { title: {} }, required: ['title'] },
+          maxItems: 3,
+          minItems: 1,
+          uniqueItems: true,
+        },
+      },
+      required: ['name', 'terms'],
+    })
+  })
+
+  it('Should describe joins and schemas loaded from JSON', () => {
+    const { schema } = toJSONSchema(
+      loadSchema({
+        tags: { path: 'tagIds', join: { from: 'tags', on: 'id', many: true } },
+        owner: {
+          path: 'ownerId',
+          join: {
+            from: 'users',
+            on: 'id',
+            schema: { email: { path: 'email', validators: [['pattern', '.+@.+']] } },
+          },
+        },
+      })
+    )
+
+    expect(schema.properties).toEqual({
+      tags: { type: 'array', items: { type: 'object' } },
+      owner: { type: 'object', properties: { email: { pattern: '^.+@.+$' } } },
+    })
+  })
+
+  it('Should translate formats, enums and multiples', () => {
+    const { schema, warnings } = toJSONSchema({
+      email: { path: 'email', validators: Validators.email },
+      id: { path: 'id', validators: [Validators.uuid, Validators.notOneOf(['0'])] },
+      size: { path: 'size', validators: Validators.oneOf(['S', 'M']) },
+      qty: {
+        path: 'qty',
+        type: 'number',
+        validators: [Validators.integer, Validators.multipleOf(5)],
+      },
+      since: { path: 'since', validators: Validators.dateAfter('2020-01-01') },
+      confirmation: { path: 'confirmation', validators: Validators.equalsPath('email') },
+    })
+
+    expect(schema.properties).toEqual({
+      email: { format: 'email' },
+      id: { format: 'uuid', not: { enum: ['0'] } },
+      size: { enum: ['S', 'M'] },
+      qty: { type: 'integer', multipleOf: 5 },
+      since: {},
+      confirmation: {},
+    })
+    expect(warnings).toEqual([
+      {
+        key: 'since.validators',
+        message: `The date range of "dateAfter" can't be translated to JSON Schema.`,
+      },
+      {
+        key: 'confirmation.validators',
+        message: "Comparisons with sibling fields can't be translated to JSON Schema.",
+      },
+    ])
+    expect(compileJSONSchema(schema)({ email: 'miro@', id: 'a1', qty: 12 })).toEqual({
+      email: { email: true },
+      id: { uuid: true },
+      qty: { multipleof: { multipleOf: 5, actual: 12 } },
+    })
+  })
+
+  it('Should warn about what it cannot translate', () => {
+    const custom = () => null
+
+    const { schema, warnings } = toJSONSchema({
+      full: (source: any) => `${source.first} ${source.last}`,
+      price: { path: 'price', type: 'number', transform: Transforms.round(2) },
+      code: {
+        path: 'code',
+        validators: [custom, Validators.requiredIf('country'), patternValidator(/^a/i)],
+        asyncValidators: async () => null,
+      },
+      $validators: [custom],
+    })
+
+    expect(schema.properties).toEqual({ full: {}, price: {}, code: { pattern: '^a' } })
+    expect(warnings).toEqual([
+      { key: 'full', message: 'The value returned by a FieldFn is left unconstrained.' },
+      {
+        key: 'code.validators[0]',
+        message: "Custom validators can't be translated to JSON Schema.",
+      },
+      {
+        key: 'code.validators[1]',
+        message: `The conditional validator "requiredIf" can't be translated to JSON Schema.`,
+      },
+      { key: 'code.validators[2]', message: 'The flags "i" of /^a/i are left out.' },
+      {
+        key: 'code.asyncValidators',
+        message: "Async validators can't be translated to JSON Schema.",
+      },
+      { key: '$validators', message: "Group validators can't be translated to JSON Schema." },
+    ])
+  })
+})
+
+describe('compileJSONSchema', () => {
+  const contract = {
+    $schema: JSON_SCHEMA_DIALECT,
+    type: 'object',
+    required: ['id', 'person'],
+    properties: {
+      id: { type: 'string', pattern: '^[A-Z]{2}-\\d+$' },
+      person: { $ref: '#/$defs/person' },
+      tags: { type: 'array', maxItems: 2, uniqueItems: true, items: { enum: ['new', 'vip'] } },
+    },
+    $defs: {
+      person: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string', minLength: 2 },
+          age: { type: 'integer', minimum: 12, maximum: 99 },
+          manager: { $ref: '#/$defs/person' },
+        },
+      },
+    },
+  }
+  const validator = compileJSONSchema(contract)
+
+  it('Should accept valid targets', () => {
+    const target = { id: 'FR-12', person: { name: 'Miro', manager: { name: 'Ana', age: 40 } } }
+
+    expect(validator(target)).toBe(null)
+    expect(
+      compileJSONSchema({ type: 'object', required: ['unit'] })({ value: 5, unit: 'kg' })
+    ).toBe(null)
+  })
+
+  it('Should report errors shaped like those of the built-in validators', () => {
+    expect(
+      validator({
+        id: 'fr-12',
+        person: { name: 'M', age: 10.5, manager: { age: 100 } },
+        tags: ['new', 'old', 'new'],
+      })
+    ).toEqual({
+      id: { pattern: { pattern: '^[A-Z]{2}-\\d+$', actual: 'fr-12' } },
+      person: {
+        name: { minlength: { minLength: 2, actual: 1 } },
+        age: { type: { expected: 'integer', actual: 10.5 } },
+        manager: { name: { required: true }, age: { max: { max: 99, actual: 100 } } },
+      },
+      tags: {
+        1: { enum: { enum: ['new', 'vip'], actual: 'old' } },
+        $errors: {
+          maxitems: { maxItems: 2, actual: 3 },
+          uniqueitems: { duplicates: [2] },
+        },
+      },
+    })
+    expect(validator('FR-12')).toEqual({ type: { expected: 'object', actual: 'FR-12' } })
+  })
+
+  it('Should check exclusive bounds and boolean schemas', () => {
+    const range = compileJSONSchema({ exclusiveMinimum: 0, exclusiveMaximum: 10 })
+    const closed = compileJSONSchema({
+      properties: { id: true, secret: false },
+      items: false,
+    })
+
+    expect(range(5)).toBe(null)
+    expect(range(0)).toEqual({ exclusiveminimum: { exclusiveMinimum: 0, actual: 0 } })
+    expect(range(10)).toEqual({ exclusivemaximum: { exclusiveMaximum: 10, actual: 10 } })
+    expect(closed({ id: 1 })).toBe(null)
+    expect(closed({ id: 1, secret: 'x' })).toEqual({ secret: { false: { actual: 'x' } } })
+    expect(closed(['a'])).toEqual({ 0: { false: { actual: 'a' } } })
+    expect(compileJSONSchema(false)(null)).toEqual({ false: { actual: null } })
+  })
+
+  it('Should validate mapped fields and results', () => {
+    const schema = {
+      person: {
+        name: { path: 'name', validators: compileJSONSchema({ type: 'string', minLength: 2 }) },
+        since: 'since',
+      },
+      $validators: [compileJSONSchema({ required: ['id'] })],
+    }
+    const source = { name: 'M', since: new Date(Date.UTC(2020, 0, 1)) }
+    const result = hookup(schema, source, { mode: 'result' })
+
+    expect(result.errors).toEqual({
+      person: { name: { minlength: { minLength: 2, actual: 1 } } },
+      $errors: { id: { required: true } },
+    })
+    expect(
+      compileJSONSchema({
+        properties: { person: { properties: { since: { type: 'string', format: 'date-time' } } } },
+      })(result.value)
+    ).toBe(null)
+    expect(
+      compileJSONSchema({ type: 'string', format: 'date-time' })(
+        Transforms.parseDate('DD/MM/YYYY')('soon')
+      )
+    ).toEqual({ type: { expected: 'string', actual: expect.any(Date) } })
+  })
+
+  it('Should round-trip generated schemas', () => {
+    const { schema } = toJSONSchema({
+      age: { path: 'age', type: 'integer', validators: [Validators.required, Validators.min(12)] },
+    })
+
+    expect(compileJSONSchema(JSON.stringify(schema))({ age: 10 })).toEqual({
+      age: { min: { min: 12, actual: 10 } },
+    })
+  })
+
+  it('Should reject references outside the document', () => {
+    expect(() => compileJSONSchema({ properties: { a: { $ref: '#/$defs/b' } } })).toThrow(
+      new SchemaFormatError([
+        { key: 'properties.a.$ref', message: 'Unresolved reference "#/$defs/b".' },
+      ])
+    )
+    expect(() => compileJSONSchema({ $ref: 'https://example.com/schema.json' })).toThrow(
+      'Only JSON Pointers within the document are supported'
+    )
+    expect(() => compileJSONSchema({ properties: { id: { pattern: '[a-' } } })).toThrow(
+      SchemaFormatError
+    )
+    expect(() => compileJSONSchema({ properties: { id: { pattern: '[a-' } } })).toThrow(
+      /properties\.id\.pattern: .*Invalid regular expression/
+    )
+  })
+})
@@ -0,0 +1,551 @@
+import { ErrorTree, GROUP_ERRORS, isErrorTree, SchemaFormatError } from './errors'
+import {
+  FieldJoin,
+  FieldSelector,
+  FieldType,
+  JsonSchemaDocument,
+  JsonSchemaExport,
+  SchemaIssue,
+  ValidationErrors,
+  ValidatorFn,
+} from './types'
+import {
+  castArray,
+  hasOwn,
+  isAsyncFunction,
+  isEmptyObject,
+  isFieldSelector,
+  isFunction,
+  isGroupValidatorKey,
+  isNumber,
+  isPlainObject,
+  isString,
+} from './utils'
+import {
+  emailValidator,
+  maxItemsValidator,
+  minItemsValidator,
+  multipleOfValidator,
+  uniqueItemsValidator,
+  urlValidator,
+  uuidValidator,
+  Validators,
+} from './validators'
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+const TYPES: Record<FieldType, JsonSchemaDocument> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  integer: { type: 'integer' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  array: { type: 'array' },
+}
+
+/**
+ * The `format` of the built-in validators of strings, and the validator checking each format.
+ */
+const FORMATS: Record<string, string> = { email: 'email', url: 'uri', uuid: 'uuid' }
+
+const FORMAT_VALIDATORS: Record<string, ValidatorFn> = {
+  email: emailValidator,
+  uri: urlValidator,
+  uuid: uuidValidator,
+}
+
+interface Property {
+  schema: JsonSchemaDocument
+  required: boolean
+}
+
+const joinKey = (parent: string, key: string) => (parent ? `${parent}.${key}` : key)
+
+const listKey = (key: string, list: unknown, i: number) =>
+  Array.isArray(list) ? `${key}[${i}]` : key
+
+/**
+ * Mirrors `patternValidator`, which anchors string patterns at both ends.
+ */
+function toPattern(pattern: unknown, key: string, warnings: SchemaIssue[]): string | undefined {
+  if (typeof pattern === 'string') {
+    const start = pattern.charAt(0) === '^' ? '' : '^'
+    const end = pattern.charAt(pattern.length - 1) === '$' ? '' : '$'
+
+    return `${start}${pattern}${end}`
+  }
+
+  if (pattern instanceof RegExp) {
+    if (pattern.flags) {
+      warnings.push({ key, message: `The flags "${pattern.flags}" of ${pattern} are left out.` })
+    }
+
+    return pattern.source
+  }
+
+  return undefined
+}
+
+/**
+ * Translates the validators of a field into keywords of its schema, returning whether they make
+ * the field required.
+ */
+function applyValidators(
+  target: JsonSchemaDocument,
+  fieldSelector: FieldSelector,
+  key: string,
+  warnings: SchemaIssue[]
+): boolean {
+  const { validators = [], asyncValidators = [] } = fieldSelector
+  const isArray = target.type === 'array'
+  let required = false
+
+  castArray(validators).forEach((validator, i) => {
+    const validatorKey = listKey(joinKey(key, 'validators'), validators, i)
+    const ref = typeof validator === 'function' ? Validators.refOf(validator) : validator
+    const [name, ...args] = typeof ref === 'string' ? [ref] : ref ?? []
+
+    switch (name) {
+      case 'min':
+        target.minimum = args[0]
+        break
+
+      case 'max':
+        target.maximum = args[0]
+        break
+
+      case 'minLength':
+        target[isArray ? 'minItems' : 'minLength'] = args[0]
+        break
+
+      case 'maxLength':
+        target[isArray ? 'maxItems' : 'maxLength'] = args[0]
+        break
+
+      case 'minItems':
+      case 'maxItems':
+        target[name] = args[0]
+        break
+
+      case 'uniqueItems':
+        if (args.length) {
+          warnings.push({
+            key: validatorKey,
+            message: "Uniqueness by path can't be translated to JSON Schema.",
+          })
+          break
+        }
+
+        target.uniqueItems = true
+        break
+
+      case 'pattern':
+        const pattern = toPattern(args[0], validatorKey, warnings)
+
+        if (pattern !== undefined) target.pattern = pattern
+        break
+
+      case 'email':
+      case 'url':
+      case 'uuid':
+        target.format = FORMATS[name]
+        break
+
+      case 'integer':
+        if (target.type === undefined || target.type === 'number') target.type = 'integer'
+        break
+
+      case 'multipleOf':
+        target.multipleOf = args[0]
+        break
+
+      case 'oneOf':
+        target.enum = args[0]
+        break
+
+      case 'notOneOf':
+        target.not = { enum: args[0] }
+        break
+
+      case 'requiredTrue':
+        target.const = true
+        required = true
+        break
+
+      case 'required':
+        required = true
+        break
+
+      case 'null':
+        break
+
+      case 'requiredIf':
+      case 'requiredUnless':
+        warnings.push({
+          key: validatorKey,
+          message: `The conditional validator "${name}" can't be translated to JSON Schema.`,
+        })
+        break
+
+      case 'equalsPath':
+        warnings.push({
+          key: validatorKey,
+          message: "Comparisons with sibling fields can't be translated to JSON Schema.",
+        })
+        break
+
+      case 'dateBefore':
+      case 'dateAfter':
+      case 'dateBetween':
+        warnings.push({
+          key: validatorKey,
+          message: `The date range of "${name}" can't be translated to JSON Schema.`,
+        })
+        break
+
+      default:
+        warnings.push({
+          key: validatorKey,
+          message: "Custom validators can't be translated to JSON Schema.",
+        })
+    }
+  })
+
+  castArray(asyncValidators).forEach((_, i) => {
+    warnings.push({
+      key: listKey(joinKey(key, 'asyncValidators'), asyncValidators, i),
+      message: "Async validators can't be translated to JSON Schema.",
+    })
+  })
+
+  return required
+}
+
+function joinSchema(join: FieldJoin, key: string, warnings: SchemaIssue[]): JsonSchemaDocument {
+  const item = join.schema
+    ? objectSchema(join.schema, joinKey(key, 'schema'), warnings)
+    : { type: 'object' }
+
+  return join.many ? { type: 'array', items: item } : item
+}
+
+function selectorSchema(fieldSelector: FieldSelector, key: string, warnings: SchemaIssue[]) {
+  const { type, transform, each, join, limit } = fieldSelector
+  let schema: JsonSchemaDocument = {}
+
+  if (join) {
+    schema = joinSchema(join, joinKey(key, 'join'), warnings)
+  } else if (each) {
+    schema = { type: 'array', items: objectSchema(each, joinKey(key, 'each'), warnings) }
+
+    if (typeof limit === 'number') schema.maxItems = limit
+  } else if (transform === undefined && type) {
+    // A transform may change the type of the value, so the type is only known without one
+    schema = { ...TYPES[type] }
+  } else if (transform === undefined && Array.isArray(fieldSelector.path)) {
+    schema = { type: 'object' }
+  }
+
+  if (fieldSelector.default !== undefined) {
+    schema.default =
+      fieldSelector.default instanceof Date
+        ? fieldSelector.default.toISOString()
+        : fieldSelector.default
+  }
+
+  return { schema, required: applyValidators(schema, fieldSelector, key, warnings) }
+}
+
+function propertySchema(accessor: unknown, key: string, warnings: SchemaIssue[]): Property {
+  if (typeof accessor === 'string') {
+    return { schema: {}, required: false }
+  }
+
+  if (Array.isArray(accessor)) {
+    return { schema: { type: 'object' }, required: false }
+  }
+
+  if (isFunction(accessor) || isAsyncFunction(accessor)) {
+    warnings.push({ key, message: 'The value returned by a FieldFn is left unconstrained.' })
+
+    return { schema: {}, required: false }
+  }
+
+  if (isFieldSelector(accessor)) {
+    return selectorSchema(accessor as FieldSelector, key, warnings)
+  }
+
+  return { schema: objectSchema(accessor as object, key, warnings), required: false }
+}
+
+function objectSchema(schema: object, key: string, warnings: SchemaIssue[]): JsonSchemaDocument {
+  const properties: Record<string, JsonSchemaDocument> = {}
+  const required: string[] = []
+
+  Object.entries(schema).forEach(([k, v]) => {
+    const fieldKey = joinKey(key, k)
+
+    if (isGroupValidatorKey(k)) {
+      warnings.push({
+        key: fieldKey,
+        message: "Group validators can't be translated to JSON Schema.",
+      })
+
+      return
+    }
+
+    const property = propertySchema(v, fieldKey, warnings)
+
+    properties[k] = property.schema
+
+    if (property.required) required.push(k)
+  })
+
+  return required.length ? { type: 'object', properties, required } : { type: 'object', properties }
+}
+
+/**
+ * Generates a draft 2020-12 JSON Schema describing the targets `schema` maps sources to. The
+ * built-in validators become keywords, such as `minimum`, `maxLength`, `pattern` or `required`.
+ * Custom and async validators, and the values returned by FieldFns, can't be described: they're
+ * left out and listed as `warnings`, keyed by their location in the schema.
+ *
+ * ```ts
+ * toJSONSchema({ age: { path: 'Age', type: 'integer', validators: Validators.min(12) } })
+ * // { schema: { ..., properties: { age: { type: 'integer', minimum: 12 } } }, warnings: [] }
+ * ```
+ */
+export function toJSONSchema(schema: object): JsonSchemaExport {
+  const warnings: SchemaIssue[] = []
+  const document = objectSchema(schema, '', warnings)
+
+  return { schema: { $schema: JSON_SCHEMA_DIALECT, ...document }, warnings }
+}
+
+type Check = (value: any) => ValidationErrors | ErrorTree | null
+
+interface CompileContext {
+  root: JsonSchemaDocument
+  /**
+   * The check compiled for every node of the document, so that recursive references resolve to
+   * the check being compiled.
+   */
+  checks: Map<JsonSchemaDocument, Check>
+}
+
+const JSON_TYPES: Record<string, (value: unknown) => boolean> = {
+  string: isString,
+  number: (value) => isNumber(value) && !isNaN(value as number),
+  integer: (value) => Number.isInteger(value),
+  boolean: (value) => typeof value === 'boolean',
+  null: (value) => value === null,
+  array: Array.isArray,
+  object: isPlainObject,
+}
+
+const sameJSON = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Resolves a JSON Pointer reference within the document, e.g. `#/$defs/address`.
+ */
+function resolveRef(ref: unknown, key: string, ctx: CompileContext): JsonSchemaDocument {
+  const pointer = typeof ref === 'string' && ref.charAt(0) === '#' ? ref.slice(1) : undefined
+
+  if (pointer === undefined || (pointer && pointer.charAt(0) !== '/')) {
+    throw new SchemaFormatError([
+      { key, message: `Only JSON Pointers within the document are supported, got "${ref}".` },
+    ])
+  }
+
+  const node = pointer
+    .split('/')
+    .slice(1)
+    .map((token) => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, token) => (isPlainObject(node) ? node[token] : undefined), ctx.root)
+
+  if (node === undefined) {
+    throw new SchemaFormatError([{ key, message: `Unresolved reference "${ref}".` }])
+  }
+
+  return node as JsonSchemaDocument
+}
+
+/**
+ * The errors of the keywords that apply to the type of `value`, named after the built-in
+ * validators they correspond to.
+ */
+function keywordErrors(node: JsonSchemaDocument, pattern: RegExp, value: any): ValidationErrors {
+  const errors: ValidationErrors = {}
+
+  if (node.enum && !(node.enum as unknown[]).some((option) => sameJSON(option, value))) {
+    errors.enum = { enum: node.enum, actual: value }
+  }
+
+  if (hasOwn(node, 'const') && !sameJSON(node.const, value)) {
+    errors.const = { const: node.const, actual: value }
+  }
+
+  if (JSON_TYPES.number(value)) {
+    if (isNumber(node.minimum) && value < (node.minimum as number)) {
+      errors.min = { min: node.minimum, actual: value }
+    }
+
+    if (isNumber(node.maximum) && value > (node.maximum as number)) {
+      errors.max = { max: node.maximum, actual: value }
+    }
+
+    if (isNumber(node.exclusiveMinimum) && value <= (node.exclusiveMinimum as number)) {
+      errors.exclusiveminimum = { exclusiveMinimum: node.exclusiveMinimum, actual: value }
+    }
+
+    if (isNumber(node.exclusiveMaximum) && value >= (node.exclusiveMaximum as number)) {
+      errors.exclusivemaximum = { exclusiveMaximum: node.exclusiveMaximum, actual: value }
+    }
+
+    if (isNumber(node.multipleOf)) {
+      Object.assign(errors, multipleOfValidator(node.multipleOf as number)(value))
+    }
+  }
+
+  if (isString(value)) {
+    if (isNumber(node.minLength) && value.length < (node.minLength as number)) {
+      errors.minlength = { minLength: node.minLength, actual: value.length }
+    }
+
+    if (isNumber(node.maxLength) && value.length > (node.maxLength as number)) {
+      errors.maxlength = { maxLength: node.maxLength, actual: value.length }
+    }
+
+    if (pattern && !pattern.test(value)) {
+      errors.pattern = { pattern: node.pattern, actual: value }
+    }
+
+    if (hasOwn(FORMAT_VALIDATORS, node.format as string)) {
+      Object.assign(errors, FORMAT_VALIDATORS[node.format as string](value))
+    }
+  }
+
+  if (Array.isArray(value)) {
+    Object.assign(
+      errors,
+      isNumber(node.minItems) && minItemsValidator(node.minItems as number)(value),
+      isNumber(node.maxItems) && maxItemsValidator(node.maxItems as number)(value),
+      node.uniqueItems === true && uniqueItemsValidator()(value)
+    )
+  }
+
+  return errors
+}
+
+function compileNode(node: unknown, key: string, ctx: CompileContext): Check {
+  if (node === true) return () => null
+
+  // No value is valid against the `false` schema
+  if (node === false) return (value) => ({ false: { actual: value } })
+
+  if (!isPlainObject(node)) {
+    throw new SchemaFormatError([{ key: key || '(root)', message: 'Expected a schema object.' }])
+  }
+
+  const schema = node as JsonSchemaDocument
+  const compiled = ctx.checks.get(schema)
+
+  if (compiled) return compiled
+
+  let check: Check = () => null
+  const lazyCheck: Check = (value) => check(value)
+
+  ctx.checks.set(schema, lazyCheck)
+  check = compileKeywords(schema, key, ctx)
+
+  return lazyCheck
+}
+
+function compilePattern(pattern: string, key: string): RegExp {
+  try {
+    return new RegExp(pattern, 'u')
+  } catch (e) {
+    throw new SchemaFormatError([{ key, message: (e as Error).message }])
+  }
+}
+
+function compileKeywords(schema: JsonSchemaDocument, key: string, ctx: CompileContext): Check {
+  const refKey = joinKey(key, '$ref')
+  const ref = hasOwn(schema, '$ref')
+    ? compileNode(resolveRef(schema.$ref, refKey, ctx), refKey, ctx)
+    : undefined
+  const items = hasOwn(schema, 'items')
+    ? compileNode(schema.items, joinKey(key, 'items'), ctx)
+    : undefined
+  const properties = Object.entries((schema.properties as object) || {}).map(
+    ([k, property]) =>
+      [k, compileNode(property, joinKey(joinKey(key, 'properties'), k), ctx)] as const
+  )
+  const required = (schema.required as string[]) || []
+  const pattern = isString(schema.pattern)
+    ? compilePattern(schema.pattern as string, joinKey(key, 'pattern'))
+    : undefined
+  const types = schema.type === undefined ? undefined : castArray(schema.type as string)
+
+  return (input) => {
+    // Mapped dates are validated as what they are written to JSON as: a string, or null if invalid
+    const value = input instanceof Date ? input.toJSON() : input
+
+    if (types && !types.some((type) => JSON_TYPES[type] && JSON_TYPES[type](value))) {
+      return { type: { expected: schema.type, actual: input } }
+    }
+
+    const errors = keywordErrors(schema, pattern, value)
+    const children = new ErrorTree()
+
+    if (items && Array.isArray(value)) {
+      value.forEach((item, i) => {
+        const itemErrors = items(item)
+
+        if (itemErrors) children[i] = itemErrors
+      })
+    }
+
+    if (isPlainObject(value)) {
+      required.forEach((k) => {
+        if (value[k] === undefined) children[k] = { required: true }
+      })
+      properties.forEach(([k, check]) => {
+        const propertyErrors = value[k] === undefined ? null : check(value[k])
+
+        if (propertyErrors) children[k] = propertyErrors
+      })
+    }
+
+    const refErrors = ref && ref(input)
+
+    if (refErrors) Object.assign(isErrorTree(refErrors) ? children : errors, refErrors)
+
+    if (isEmptyObject(children)) return isEmptyObject(errors) ? null : errors
+
+    if (!isEmptyObject(errors)) children[GROUP_ERRORS] = errors
+
+    return children
+  }
+}
+
+/**
+ * Compiles a JSON Schema into a validator, so that mapped targets can be checked against a
+ * contract, either as one of a field's `validators` or over a whole `hookup` result. Supports
+ * `type`, `enum`, `const`, `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum`,
+ * `multipleOf`, `minLength`, `maxLength`, `minItems`, `maxItems`, `uniqueItems`, `pattern`, the
+ * `email`, `uri` and `uuid` formats, `required`, `properties`, `items`, boolean schemas and `$ref`s
+ * within the document; other keywords are ignored. Throws a `SchemaFormatError` for references it
+ * can't resolve and invalid patterns.
+ *
+ * The errors are shaped like those of `hookup` in `'result'` mode: keyword failures are named
+ * after the built-in validators (`{ min: { min: 12, actual: 10 } }`), while those of properties
+ * and items are nested under their key or index, the errors of the object itself going under
+ * `$errors`.
+ */
+export function compileJSONSchema(document: JsonSchemaDocument | boolean | string): ValidatorFn {
+  const root = typeof document === 'string' ? JSON.parse(document) : document
+  const check = compileNode(root, '', { root, checks: new Map() })
+
+  return (input) => check(input)
+}
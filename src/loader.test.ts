@@ -0,0 +1,130 @@
+import { hookup } from '.'
+import { SchemaFormatError } from './errors'
+import { loadSchema, serializeSchema } from './loader'
+import { Registry, registry } from './registry'
+import { Transforms } from './transforms'
+import { JsonSchema } from './types'
+import { Validators } from './validators'
+
+const source = {
+  _firstName: 'Miro',
+  Age: 10,
+  contactInfo: { email: 'miro@mediumwarmmail.com' },
+  jobs: [{ title: 'cook' }, { title: 'baker' }],
+  employerId: 7,
+}
+
+const json: JsonSchema = {
+  name: { path: '_firstName', transform: 'upper' },
+  age: { path: 'Age', validators: [['min', 12], 'required'] },
+  contact: { email: 'contactInfo.email' },
+  jobs: { path: 'jobs', each: { title: { path: 'title', transform: [['suffix', '!']] } } },
+  employer: { path: 'employerId', join: { from: 'companies', on: 'id', schema: { name: 'name' } } },
+}
+
+const customRegistry = new Registry()
+  .registerTransform('upper', (value: string) => value.toUpperCase())
+  .registerTransform('suffix', (value: string, suffix: string) => `${value}${suffix}`)
+  .registerValidator('min', Validators.min)
+  .registerValidator('required', () => Validators.null)
+
+describe('loadSchema', () => {
+  it('Should resolve named transforms and validators', () => {
+    const schema = loadSchema(JSON.stringify(json), customRegistry)
+
+    expect(hookup(schema, source, { datasets: { companies: [{ id: 7, name: 'Acme' }] } })).toEqual({
+      name: 'MIRO',
+      age: [{ min: { min: 12, actual: 10 } }],
+      contact: { email: 'miro@mediumwarmmail.com' },
+      jobs: [{ title: 'cook!' }, { title: 'baker!' }],
+      employer: { name: 'Acme' },
+    })
+  })
+
+  it('Should use the built-in validators by default', () => {
+    const schema = loadSchema({ age: { path: 'Age', validators: [['max', 5]] } })
+
+    expect(hookup(schema, source)).toEqual({ age: [{ max: { max: 5, actual: 10 } }] })
+  })
+
+  it('Should report every problem at once', () => {
+    const load = () =>
+      loadSchema(
+        {
+          age: { path: 'Age', validators: [['mni', 12]] },
+          name: { path: 'jobs[', transform: 'upper' },
+          count: 12 as any,
+        },
+        customRegistry
+      )
+
+    expect(load).toThrow(SchemaFormatError)
+    expect(load).toThrow(
+      'Invalid schema:\n' +
+        '  - age.validators[0]: Unknown validator "mni". Available validators: "min", "required".\n' +
+        '  - name.path: Unterminated bracket at position 4 in path "jobs["\n' +
+        '  jobs[\n' +
+        '      ^\n' +
+        '  - count: Unsupported value 12; expected a path, a list of paths, a field selector or a ' +
+        'nested schema.'
+    )
+  })
+
+  it('Should report misspelled selector options', () => {
+    expect(() =>
+      loadSchema({ age: { path: 'Age', type: 'nmbr' }, name: { path: 'name', missing: 'skip' } })
+    ).toThrow(
+      new SchemaFormatError([
+        {
+          key: 'age.type',
+          message: 'Expected one of "string", "number", "integer", "boolean", "date", "array".',
+        },
+        { key: 'name.missing', message: 'Expected one of "undefined", "null", "omit", "throw".' },
+      ])
+    )
+  })
+})
+
+describe('serializeSchema', () => {
+  it('Should serialize a loaded schema back to JSON', () => {
+    expect(serializeSchema(loadSchema(json, customRegistry), customRegistry)).toEqual(json)
+  })
+
+  it('Should serialize functions resolved from the registry', () => {
+    const schema = {
+      age: { path: 'Age', validators: registry.resolve('validator', ['min', 12]) },
+    }
+
+    expect(serializeSchema(schema)).toEqual({ age: { path: 'Age', validators: [['min', 12]] } })
+  })
+
+  it('Should serialize built-in transforms and validators', () => {
+    const schema = {
+      age: { path: 'Age', validators: [Validators.required, Validators.min(12)] },
+      price: { path: 'price', transform: [Transforms.trim, Transforms.round(2)] },
+      tags: { path: 'tags', transform: Transforms.split(',') },
+    }
+    const json = serializeSchema(schema)
+
+    expect(json).toEqual({
+      age: { path: 'Age', validators: ['required', ['min', 12]] },
+      price: { path: 'price', transform: ['trim', ['round', 2]] },
+      tags: { path: 'tags', transform: [['split', ',']] },
+    })
+    expect(serializeSchema(loadSchema(json))).toEqual(json)
+  })
+
+  it('Should refuse to serialize closures', () => {
+    const schema = {
+      city: (src) => src.address.city,
+      age: { path: 'Age', validators: (age: number) => (age < 12 ? { min: 12 } : null) },
+    }
+
+    expect(() => serializeSchema(schema)).toThrow(
+      'Invalid schema:\n' +
+        "  - city: FieldFns can't be serialized.\n" +
+        '  - age.validators: Only built-in functions and those registered in or resolved from the ' +
+        'registry can be serialized.'
+    )
+  })
+})
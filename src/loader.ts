@@ -0,0 +1,435 @@
+import { SchemaFormatError } from './errors'
+import { parsePath } from './path'
+import { isNamedRef, Registry, registry as defaultRegistry } from './registry'
+import { Transforms } from './transforms'
+import {
+  FieldJoin,
+  FieldSelector,
+  JsonFieldSelector,
+  JsonSchema,
+  NamedRef,
+  RegistryKind,
+  Schema,
+  SchemaIssue,
+} from './types'
+import {
+  castArray,
+  FIELD_TYPES,
+  GROUP_VALIDATORS,
+  hasOwn,
+  isAsyncFunction,
+  isFieldSelector,
+  isFunction,
+  isGroupValidatorKey,
+  isPlainObject,
+  isString,
+  MISSING_PATH_POLICIES,
+} from './utils'
+import { Validators } from './validators'
+
+const expectOneOf = (options: string[]) =>
+  `Expected one of ${options.map((option) => `"${option}"`).join(', ')}.`
+
+interface FormatContext {
+  registry: Registry
+  issues: SchemaIssue[]
+}
+
+const joinKey = (parent: string, key: string) => (parent ? `${parent}.${key}` : key)
+
+const isFieldFn = (value: unknown) => isFunction(value) || isAsyncFunction(value)
+
+function checkPaths(paths: unknown, key: string, ctx: FormatContext): string | string[] {
+  if (Array.isArray(paths)) {
+    return paths.map((path, i) => checkPaths(path, `${key}[${i}]`, ctx) as string)
+  }
+
+  if (typeof paths !== 'string') {
+    ctx.issues.push({ key, message: `Expected a path but got ${JSON.stringify(paths)}.` })
+
+    return paths as string
+  }
+
+  try {
+    parsePath(paths)
+  } catch (e) {
+    ctx.issues.push({ key, message: (e as Error).message })
+  }
+
+  return paths
+}
+
+function resolveRef(kind: RegistryKind, ref: unknown, key: string, ctx: FormatContext) {
+  if (!isNamedRef(ref)) {
+    ctx.issues.push({
+      key,
+      message: `Expected a name or a [name, ...args] tuple but got ${JSON.stringify(ref)}.`,
+    })
+
+    return null
+  }
+
+  try {
+    return ctx.registry.resolve(kind, ref)
+  } catch (e) {
+    ctx.issues.push({ key, message: (e as Error).message })
+
+    return null
+  }
+}
+
+/**
+ * Lists of references are always read as lists, so that `["min", 12]` isn't mistaken for a
+ * single reference: write `[["min", 12]]` instead.
+ */
+function resolveRefs(kind: RegistryKind, refs: unknown, key: string, ctx: FormatContext) {
+  if (typeof refs === 'string') return [resolveRef(kind, refs, key, ctx)]
+
+  if (!Array.isArray(refs)) {
+    ctx.issues.push({
+      key,
+      message: `Expected a list of references but got ${JSON.stringify(refs)}.`,
+    })
+
+    return []
+  }
+
+  return refs.map((ref, i) => resolveRef(kind, ref, `${key}[${i}]`, ctx))
+}
+
+function loadJoin(json: unknown, key: string, ctx: FormatContext): FieldJoin {
+  if (!isPlainObject(json)) {
+    ctx.issues.push({ key, message: 'Expected a join object.' })
+
+    return json as FieldJoin
+  }
+
+  const join = Object.entries(json).reduce((join, [option, value]) => {
+    const optionKey = joinKey(key, option)
+
+    switch (option) {
+      case 'from':
+      case 'on':
+        if (typeof value !== 'string') {
+          ctx.issues.push({ key: optionKey, message: 'Expected a string.' })
+        }
+
+        join[option] = value
+        break
+
+      case 'schema':
+        join.schema = loadFields(value, optionKey, ctx)
+        break
+
+      case 'many':
+        if (typeof value !== 'boolean') {
+          ctx.issues.push({ key: optionKey, message: 'Expected a boolean.' })
+        }
+
+        join.many = value
+        break
+
+      case 'missing':
+        if (!MISSING_PATH_POLICIES.includes(value)) {
+          ctx.issues.push({ key: optionKey, message: expectOneOf(MISSING_PATH_POLICIES) })
+        }
+
+        join.missing = value
+        break
+
+      default:
+        ctx.issues.push({ key: optionKey, message: `Unknown option "${option}".` })
+    }
+
+    return join
+  }, {} as FieldJoin)
+
+  const required = ['from', 'on']
+
+  required.forEach((option) => {
+    if (!hasOwn(join, option)) {
+      ctx.issues.push({ key, message: `Missing option "${option}".` })
+    }
+  })
+
+  return join
+}
+
+function loadSelector(json: object, key: string, ctx: FormatContext): FieldSelector {
+  return Object.entries(json).reduce((fieldSelector, [option, value]) => {
+    const optionKey = joinKey(key, option)
+
+    switch (option) {
+      case 'path':
+        fieldSelector.path = checkPaths(value, optionKey, ctx)
+        break
+
+      case 'fallbacks':
+        fieldSelector.fallbacks = castArray(checkPaths(value, optionKey, ctx))
+        break
+
+      case 'validators':
+        fieldSelector.validators = resolveRefs('validator', value, optionKey, ctx)
+        break
+
+      case 'asyncValidators':
+        fieldSelector.asyncValidators = resolveRefs('asyncValidator', value, optionKey, ctx)
+        break
+
+      case 'transform':
+        fieldSelector.transform =
+          typeof value === 'string'
+            ? resolveRef('transform', value, optionKey, ctx)
+            : resolveRefs('transform', value, optionKey, ctx)
+        break
+
+      case 'missing':
+        if (!MISSING_PATH_POLICIES.includes(value)) {
+          ctx.issues.push({ key: optionKey, message: expectOneOf(MISSING_PATH_POLICIES) })
+        }
+
+        fieldSelector.missing = value
+        break
+
+      case 'type':
+        if (!FIELD_TYPES.includes(value)) {
+          ctx.issues.push({ key: optionKey, message: expectOneOf(FIELD_TYPES) })
+        }
+
+        fieldSelector.type = value
+        break
+
+      case 'each':
+        fieldSelector.each = loadFields(value, optionKey, ctx)
+        break
+
+      case 'join':
+        fieldSelector.join = loadJoin(value, optionKey, ctx)
+        break
+
+      case 'sort':
+      case 'limit':
+        const expected = option === 'sort' ? 'string' : 'number'
+
+        if (typeof value !== expected) {
+          ctx.issues.push({ key: optionKey, message: `Expected a ${expected}.` })
+        }
+
+        fieldSelector[option] = value
+        break
+
+      case 'default':
+        fieldSelector.default = value
+        break
+
+      case 'messages':
+        if (!isPlainObject(value) || !Object.values(value).every(isString)) {
+          ctx.issues.push({ key: optionKey, message: 'Expected an object of message templates.' })
+        }
+
+        fieldSelector.messages = value
+        break
+
+      case 'filter':
+        ctx.issues.push({
+          key: optionKey,
+          message:
+            'Filters can only be functions; filter the path instead, e.g. "jobs[?(@.active)]".',
+        })
+        break
+
+      default:
+        ctx.issues.push({ key: optionKey, message: `Unknown option "${option}".` })
+    }
+
+    return fieldSelector
+  }, {} as FieldSelector)
+}
+
+function loadFields(json: unknown, key: string, ctx: FormatContext): Schema {
+  if (!isPlainObject(json)) {
+    ctx.issues.push({ key: key || '(root)', message: 'Expected a schema object.' })
+
+    return {}
+  }
+
+  return Object.entries(json).reduce((schema, [k, v]) => {
+    const fieldKey = joinKey(key, k)
+
+    if (isGroupValidatorKey(k)) {
+      const kind = k === GROUP_VALIDATORS ? 'validator' : 'asyncValidator'
+
+      schema[k] = resolveRefs(kind, v, fieldKey, ctx)
+    } else if (typeof v === 'string' || Array.isArray(v)) {
+      schema[k] = checkPaths(v, fieldKey, ctx)
+    } else if (isFieldSelector(v)) {
+      schema[k] = loadSelector(v, fieldKey, ctx)
+    } else if (isPlainObject(v)) {
+      schema[k] = loadFields(v, fieldKey, ctx)
+    } else {
+      ctx.issues.push({
+        key: fieldKey,
+        message:
+          `Unsupported value ${JSON.stringify(v)}; expected a path, a list of paths, ` +
+          'a field selector or a nested schema.',
+      })
+    }
+
+    return schema
+  }, {} as Schema)
+}
+
+/**
+ * Creates a schema from its JSON form, resolving the transforms and validators it references by
+ * name from `registry`. Throws a `SchemaFormatError` listing every problem found, such as
+ * malformed paths or unknown names.
+ *
+ * ```json
+ * { "name": "_firstName", "age": { "path": "Age", "validators": [["min", 12]] } }
+ * ```
+ */
+export function loadSchema(
+  json: string | JsonSchema,
+  registry: Registry = defaultRegistry
+): Schema {
+  const ctx: FormatContext = { registry, issues: [] }
+  const schema = loadFields(typeof json === 'string' ? JSON.parse(json) : json, '', ctx)
+
+  if (ctx.issues.length) {
+    throw new SchemaFormatError(ctx.issues)
+  }
+
+  return schema
+}
+
+/**
+ * The reference of a function, found in the registry or, for the built-in transforms and
+ * validators, in those tracked by `Transforms` and `Validators`.
+ */
+function refOf(fn: (...args: any[]) => any, ctx: FormatContext): NamedRef | undefined {
+  return ctx.registry.refOf(fn) ?? Validators.refOf(fn) ?? Transforms.refOf(fn)
+}
+
+function serializeRef(fn: unknown, key: string, ctx: FormatContext): NamedRef {
+  // Validators may already be referenced by name
+  const ref = isFieldFn(fn)
+    ? refOf(fn as (...args: any[]) => any, ctx)
+    : isNamedRef(fn)
+    ? fn
+    : undefined
+
+  if (!ref) {
+    ctx.issues.push({
+      key,
+      message:
+        'Only built-in functions and those registered in or resolved from the registry can be ' +
+        'serialized.',
+    })
+  }
+
+  return Array.isArray(ref) ? [...ref] : ref
+}
+
+/**
+ * Serializes a function or a list of functions, wrapping single references that have arguments
+ * in a list as `loadSchema` expects.
+ */
+function serializeRefs(fns: unknown, key: string, ctx: FormatContext): string | NamedRef[] {
+  if (Array.isArray(fns)) {
+    return fns.map((fn, i) => serializeRef(fn, `${key}[${i}]`, ctx))
+  }
+
+  const ref = serializeRef(fns, key, ctx)
+
+  return typeof ref === 'string' ? ref : [ref]
+}
+
+function serializeSelector(fieldSelector: FieldSelector, key: string, ctx: FormatContext) {
+  return Object.entries(fieldSelector).reduce((json, [option, value]) => {
+    const optionKey = joinKey(key, option)
+
+    switch (option) {
+      case 'validators':
+      case 'asyncValidators':
+      case 'transform':
+        json[option] = serializeRefs(value, optionKey, ctx)
+        break
+
+      case 'each':
+        json.each = serializeFields(value, optionKey, ctx)
+        break
+
+      case 'join':
+        json.join = value.schema
+          ? { ...value, schema: serializeFields(value.schema, joinKey(optionKey, 'schema'), ctx) }
+          : { ...value }
+        break
+
+      case 'messages':
+        Object.entries(value).forEach(([k, template]) => {
+          if (isFieldFn(template)) {
+            ctx.issues.push({
+              key: joinKey(optionKey, k),
+              message: "A message function can't be serialized.",
+            })
+          }
+        })
+
+        json.messages = { ...value }
+        break
+
+      case 'filter':
+      case 'sort':
+        if (isFieldFn(value)) {
+          ctx.issues.push({ key: optionKey, message: `A ${option} function can't be serialized.` })
+          break
+        }
+
+        json[option] = value
+        break
+
+      default:
+        json[option] = value
+    }
+
+    return json
+  }, {} as JsonFieldSelector)
+}
+
+function serializeFields(schema: object, key: string, ctx: FormatContext): JsonSchema {
+  return Object.entries(schema).reduce((json, [k, v]) => {
+    const fieldKey = joinKey(key, k)
+
+    if (isGroupValidatorKey(k)) {
+      json[k] = serializeRefs(v, fieldKey, ctx)
+    } else if (typeof v === 'string' || Array.isArray(v)) {
+      json[k] = Array.isArray(v) ? [...v] : v
+    } else if (isFieldFn(v)) {
+      ctx.issues.push({ key: fieldKey, message: "FieldFns can't be serialized." })
+    } else if (isFieldSelector(v)) {
+      json[k] = serializeSelector(v, fieldKey, ctx)
+    } else {
+      json[k] = serializeFields(v, fieldKey, ctx)
+    }
+
+    return json
+  }, {} as JsonSchema)
+}
+
+/**
+ * Converts a schema to its JSON form. Transforms and validators are written as the references
+ * they were resolved from in `registry`, so schemas created by `loadSchema` serialize back to
+ * the JSON they were loaded from. The built-in ones, such as `Validators.min(12)` or
+ * `Transforms.round(2)`, are written as the references they were created from. Throws a
+ * `SchemaFormatError` listing every field that can't be serialized, such as FieldFns.
+ */
+export function serializeSchema(schema: object, registry: Registry = defaultRegistry): JsonSchema {
+  const ctx: FormatContext = { registry, issues: [] }
+  const json = serializeFields(schema, '', ctx)
+
+  if (ctx.issues.length) {
+    throw new SchemaFormatError(ctx.issues)
+  }
+
+  return json
+}
@@ -0,0 +1,100 @@
+import { hookup } from '.'
+import { compileJSONSchema } from './jsonschema'
+import { loadSchema, serializeSchema } from './loader'
+import { formatErrors, formatMessage, registerMessages } from './messages'
+import { JsonSchema } from './types'
+import { Validators } from './validators'
+
+const schema = {
+  name: { path: 'name', validators: [Validators.required, Validators.maxLength(5)] },
+  age: {
+    path: 'age',
+    validators: Validators.min(12),
+    messages: { min: (params) => `Must be ${params.min} or older, not ${params.actual}` },
+  },
+  address: { zipcode: { path: 'zip', validators: Validators.pattern('[0-9]{5}') } },
+  jobs: {
+    path: 'jobs',
+    each: { title: { path: 'title', validators: Validators.required } },
+    validators: Validators.maxItems(1),
+  },
+  $validators: [() => ({ incomplete: true })],
+}
+const source = { name: 'Miroslav', age: 10, zip: '111', jobs: [{ title: 'cook' }, {}] }
+
+describe('formatMessage', () => {
+  it('Should interpolate the parameters of errors', () => {
+    expect(formatMessage('Must be between {start} and {end}', { start: 1, end: 5 })).toBe(
+      'Must be between 1 and 5'
+    )
+    expect(formatMessage('Must be one of {oneOf}', { oneOf: ['S', 'M'] })).toBe(
+      'Must be one of S, M'
+    )
+    expect(
+      formatMessage('Must be before {before}', { before: new Date(Date.UTC(2020, 0, 1)) })
+    ).toBe('Must be before 2020-01-01T00:00:00.000Z')
+    expect(formatMessage('Must match {pattern}', {})).toBe('Must match {pattern}')
+  })
+})
+
+describe('formatErrors', () => {
+  it('Should flatten the errors of a result', () => {
+    expect(formatErrors(hookup(schema, source, { mode: 'result' }), { schema })).toEqual([
+      { path: 'name', key: 'maxlength', message: 'Must have a length of at most 5' },
+      { path: 'age', key: 'min', message: 'Must be 12 or older, not 10' },
+      { path: 'address.zipcode', key: 'pattern', message: 'Must match the pattern ^[0-9]{5}$' },
+      { path: 'jobs[1].title', key: 'required', message: 'Is required' },
+      { path: 'jobs', key: 'maxitems', message: 'Must have at most 1 items' },
+      { path: '', key: 'incomplete', message: 'Is invalid' },
+    ])
+  })
+
+  it('Should take messages from the catalogs of a locale', () => {
+    registerMessages('fr', { required: 'Obligatoire', maxlength: 'Au plus {maxLength} caractères' })
+    registerMessages('fr-CA', { required: 'Requis' })
+
+    const errors = hookup(schema, source, { mode: 'result' }).errors
+
+    expect(
+      formatErrors(errors, {
+        locale: 'fr-CA',
+        messages: { incomplete: 'Incomplete' },
+      }).map(({ message }) => message)
+    ).toEqual([
+      'Au plus 5 caractères',
+      'Must be at least 12',
+      'Must match the pattern ^[0-9]{5}$',
+      'Requis',
+      'Must have at most 1 items',
+      'Incomplete',
+    ])
+    expect(formatErrors(errors, { locale: 'fr' })[3].message).toBe('Obligatoire')
+  })
+
+  it('Should format the errors of array sources and validators', () => {
+    const person = { name: { path: 'name', validators: 'required' } }
+    const people = hookup(person, [{ name: 'Ana' }, {}], { mode: 'result' })
+
+    expect(formatErrors(people)).toEqual([
+      { path: '[1].name', key: 'required', message: 'Is required' },
+    ])
+    expect(formatErrors(compileJSONSchema({ type: 'object', required: ['id'] })({}))).toEqual([
+      { path: 'id', key: 'required', message: 'Is required' },
+    ])
+    expect(formatErrors(Validators.email('miro@'))).toEqual([
+      { path: '', key: 'email', message: 'Must be an email address' },
+    ])
+    expect(formatErrors(null)).toEqual([])
+  })
+
+  it('Should load and serialize the messages of fields', () => {
+    const json: JsonSchema = {
+      age: { path: 'age', validators: [['min', 12]], messages: { min: 'Too young' } },
+    }
+
+    expect(serializeSchema(loadSchema(json))).toEqual(json)
+    expect(() => loadSchema({ age: { path: 'age', messages: { min: 12 } } as any })).toThrow(
+      'age.messages: Expected an object of message templates.'
+    )
+  })
+})
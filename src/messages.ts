@@ -0,0 +1,197 @@
+import { ErrorTree, GROUP_ERRORS, isErrorTree } from './errors'
+import { PathSegment, stringifyPath } from './path'
+import {
+  FieldSelector,
+  FormatErrorsOptions,
+  FormattedError,
+  MappingResult,
+  MessageCatalog,
+  MessageTemplate,
+  ValidationErrors,
+} from './types'
+import { hasOwn, isDate, isFieldSelector, isPlainObject } from './utils'
+
+export const DEFAULT_LOCALE = 'en'
+
+/**
+ * The key of the message used for errors no catalog has a message for.
+ */
+export const DEFAULT_MESSAGE = '$default'
+
+/**
+ * The message catalogs registered by locale, starting with the English messages of the errors of
+ * the built-in validators and of `compileJSONSchema`.
+ */
+const catalogs = new Map<string, MessageCatalog>([
+  [
+    DEFAULT_LOCALE,
+    {
+      required: 'Is required',
+      min: 'Must be at least {min}',
+      max: 'Must be at most {max}',
+      exclusiveminimum: 'Must be greater than {exclusiveMinimum}',
+      exclusivemaximum: 'Must be less than {exclusiveMaximum}',
+      minlength: 'Must have a length of at least {minLength}',
+      maxlength: 'Must have a length of at most {maxLength}',
+      minitems: 'Must have at least {minItems} items',
+      maxitems: 'Must have at most {maxItems} items',
+      uniqueitems: 'Must not repeat items',
+      pattern: 'Must match the pattern {pattern}',
+      email: 'Must be an email address',
+      url: 'Must be a URL',
+      uuid: 'Must be a UUID',
+      integer: 'Must be an integer',
+      multipleof: 'Must be a multiple of {multipleOf}',
+      oneof: 'Must be one of {oneOf}',
+      notoneof: 'Must not be one of {notOneOf}',
+      date: 'Must be a date',
+      datebefore: 'Must be before {before}',
+      dateafter: 'Must be after {after}',
+      datebetween: 'Must be between {start} and {end}',
+      equalspath: 'Must match {path}',
+      type: 'Must be of type {expected}',
+      enum: 'Must be one of {enum}',
+      const: 'Must be {const}',
+      false: 'Is not allowed',
+      async: 'Could not be validated',
+      [DEFAULT_MESSAGE]: 'Is invalid',
+    },
+  ],
+])
+
+/**
+ * Registers the messages of a locale, adding to those already registered for it. Locales are
+ * language tags such as `fr` or `fr-CA`.
+ *
+ * ```ts
+ * registerMessages('fr', { required: 'Obligatoire', min: 'Doit être au moins {min}' })
+ * ```
+ */
+export function registerMessages(locale: string, catalog: MessageCatalog): void {
+  catalogs.set(locale, { ...catalogs.get(locale), ...catalog })
+}
+
+/**
+ * The catalogs of a locale, from the most specific to English.
+ */
+function catalogsOf(locale: string): MessageCatalog[] {
+  const [language] = locale.split('-')
+
+  return [...new Set([locale, language, DEFAULT_LOCALE])]
+    .filter((tag) => catalogs.has(tag))
+    .map((tag) => catalogs.get(tag))
+}
+
+function formatParam(value: unknown): string {
+  if (Array.isArray(value)) return value.map(formatParam).join(', ')
+
+  if (isDate(value)) return (value as Date).toISOString()
+
+  return isPlainObject(value) ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Formats a message, interpolating the parameters of the error into a string template. Unknown
+ * placeholders are kept as they are.
+ */
+export function formatMessage(
+  template: MessageTemplate,
+  params: Record<string, any>,
+  path = ''
+): string {
+  if (typeof template === 'function') return template(params, path)
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    hasOwn(params, name) ? formatParam(params[name]) : placeholder
+  )
+}
+
+interface FormatContext {
+  catalogs: MessageCatalog[]
+  formatted: FormattedError[]
+}
+
+/**
+ * The schema of the child `key` of a field or group, if it has one. The children of a field are
+ * the items of its `each` or `join` schema, keyed by index unless it joins a single item.
+ */
+function childSchema(schema: unknown, key: string, isIndex: boolean): unknown {
+  if (!isFieldSelector(schema)) return isPlainObject(schema) ? schema[key] : undefined
+
+  const { each, join } = schema as FieldSelector
+  const itemSchema = each || join?.schema
+
+  return isIndex ? itemSchema : itemSchema?.[key]
+}
+
+function formatLeaf(errors: ValidationErrors, path: string, schema: unknown, ctx: FormatContext) {
+  const fieldMessages = isFieldSelector(schema) ? (schema as FieldSelector).messages : undefined
+  const sources = fieldMessages ? [fieldMessages, ...ctx.catalogs] : ctx.catalogs
+  const lookup = (key: string) => sources.find((catalog) => hasOwn(catalog, key))?.[key]
+
+  Object.entries(errors).forEach(([key, value]) => {
+    const template = lookup(key) ?? lookup(DEFAULT_MESSAGE) ?? key
+    const params = isPlainObject(value) ? value : {}
+
+    ctx.formatted.push({ path, key, message: formatMessage(template, params, path) })
+  })
+}
+
+function formatTree(
+  errors: ErrorTree | ValidationErrors | (ErrorTree | null)[] | null,
+  segments: PathSegment[],
+  schema: unknown,
+  ctx: FormatContext
+) {
+  if (!errors) return
+
+  // Array sources produce one tree per item, all mapped with the same schema
+  if (Array.isArray(errors)) {
+    errors.forEach((tree, index) =>
+      formatTree(tree, [...segments, { type: 'index', index }], schema, ctx)
+    )
+
+    return
+  }
+
+  if (!isErrorTree(errors)) return formatLeaf(errors, stringifyPath(segments), schema, ctx)
+
+  Object.entries(errors).forEach(([key, child]) => {
+    if (key === GROUP_ERRORS) return formatLeaf(child, stringifyPath(segments), schema, ctx)
+
+    const isIndex = /^\d+$/.test(key)
+    const segment: PathSegment = isIndex
+      ? { type: 'index', index: Number(key) }
+      : { type: 'key', key }
+
+    formatTree(child, [...segments, segment], childSchema(schema, key, isIndex), ctx)
+  })
+}
+
+const isMappingResult = (o: unknown): o is MappingResult =>
+  isPlainObject(o) && !isErrorTree(o) && hasOwn(o, 'valid') && hasOwn(o, 'errors')
+
+/**
+ * Flattens the errors of a `hookup` result in `'result'` mode, or those returned by a validator,
+ * into a list of human-readable messages. Messages are taken from the `messages` of the field in
+ * `schema`, then from `messages`, then from the catalogs of `locale`.
+ *
+ * ```ts
+ * formatErrors(hookup(schema, source, { mode: 'result' }))
+ * // [{ path: 'person.age', key: 'min', message: 'Must be at least 12' }]
+ * ```
+ */
+export function formatErrors(
+  result: MappingResult | ErrorTree | (ErrorTree | null)[] | ValidationErrors | null,
+  options: FormatErrorsOptions = {}
+): FormattedError[] {
+  const { locale = DEFAULT_LOCALE, messages, schema } = options
+  const ctx: FormatContext = {
+    catalogs: messages ? [messages, ...catalogsOf(locale)] : catalogsOf(locale),
+    formatted: [],
+  }
+
+  formatTree(isMappingResult(result) ? result.errors : result, [], schema, ctx)
+
+  return ctx.formatted
+}
@@ -0,0 +1,101 @@
+import { hookup } from '.'
+import { PathSyntaxError } from './errors'
+import { parsePath } from './path'
+import { get, set } from './utils'
+
+const source = {
+  'meta.data': { version: 2 },
+  jobs: [
+    { title: 'cook', company: 'Macrobiotic Booger Bakery', active: false, years: 2 },
+    { title: 'baker', company: 'Loaf Life', active: true, years: 5 },
+    { title: 'barista', company: 'Bean There', active: true, years: 1 },
+  ],
+}
+
+describe('path', () => {
+  it('Should read bracket and negative indices', () => {
+    expect(get(source, 'jobs[0].title')).toEqual('cook')
+    expect(get(source, 'jobs[-1].title')).toEqual('barista')
+    expect(get(source, 'jobs.1.title')).toEqual('baker')
+  })
+
+  it('Should fan out wildcards', () => {
+    expect(get(source, 'jobs[*].title')).toEqual(['cook', 'baker', 'barista'])
+    expect(get(source, 'jobs.*.company')).toEqual([
+      'Macrobiotic Booger Bakery',
+      'Loaf Life',
+      'Bean There',
+    ])
+    expect(get(source, 'jobs[*].title[*]')).toEqual([])
+    expect(get({ name: 'Miro' }, 'name.*')).toEqual([])
+  })
+
+  it('Should only cache the most recently used paths', () => {
+    const segments = parsePath('cached.path')
+    const parseMany = (prefix: string) => {
+      for (let i = 0; i < 999; i++) parsePath(`${prefix}${i}`)
+    }
+
+    parseMany('a')
+    expect(parsePath('cached.path')).toBe(segments)
+
+    parseMany('b')
+    parsePath('c')
+    expect(parsePath('cached.path')).not.toBe(segments)
+    expect(parsePath('cached.path')).toEqual(segments)
+  })
+
+  it('Should read quoted and escaped keys', () => {
+    expect(get(source, '["meta.data"].version')).toEqual(2)
+    expect(get(source, "['meta.data'].version")).toEqual(2)
+    expect(get(source, 'meta\\.data.version')).toEqual(2)
+  })
+
+  it('Should filter with predicates', () => {
+    expect(get(source, 'jobs[?(@.active)].title')).toEqual(['baker', 'barista'])
+    expect(get(source, 'jobs[?(!@.active)].title')).toEqual(['cook'])
+    expect(get(source, "jobs[?(@.years >= 2 && @.title != 'cook')].title")).toEqual(['baker'])
+  })
+
+  it('Should point to the offending character when a path is malformed', () => {
+    expect(() => parsePath('jobs[]')).toThrow(PathSyntaxError)
+    expect(() => parsePath('jobs[]')).toThrow(
+      'Unexpected character "]" at position 5 in path "jobs[]"\n  jobs[]\n       ^'
+    )
+    expect(() => parsePath('jobs..title')).toThrow('at position 5')
+    expect(() => parsePath('["meta.data')).toThrow('Unterminated string at position 1')
+    expect(() => parsePath('jobs[0')).toThrow('Unterminated bracket at position 4 in path "jobs[0"')
+    expect(() => parsePath('jobs[?(@.active = true)]')).toThrow('Expected ")" but found "="')
+  })
+
+  it('Should set values through bracket paths', () => {
+    expect(set({}, 'jobs[0]["meta.data"]', 1)).toEqual({ jobs: [{ 'meta.data': 1 }] })
+    expect(() => set({}, 'jobs[*].title', 1)).toThrow('wildcard or filter')
+  })
+
+  it('Should refuse to write through prototypes', () => {
+    expect(() => set({}, '__proto__.polluted', 'yes')).toThrow(
+      'Refusing to write the unsafe property "__proto__".'
+    )
+    expect(() => set({}, ['constructor', 'prototype', 'polluted'], 'yes')).toThrow('"constructor"')
+    expect(() => set({}, 'a.prototype', 'yes')).toThrow('"prototype"')
+    expect(({} as any).polluted).toBeUndefined()
+  })
+
+  it('Should use the path syntax in schemas', () => {
+    const data = hookup(
+      {
+        titles: 'jobs[*].title',
+        lastEmployer: { path: 'jobs[-1].company', transform: (x: string) => x.toUpperCase() },
+        active: ['jobs[?(@.active)].title'],
+      },
+      source
+    )
+
+    expect(data).toEqual({
+      titles: ['cook', 'baker', 'barista'],
+      lastEmployer: 'BEAN THERE',
+      active: { jobs: [undefined, { title: 'baker' }, { title: 'barista' }] },
+    })
+  })
+})
@@ -0,0 +1,592 @@
+import { PathSyntaxError } from './errors'
+import { isNil, isPlainObject, isString, set } from './utils'
+
+/**
+ * A path is parsed into a list of segments, each describing a single step from a value into
+ * one (`key`, `index`) or many (`wildcard`, `filter`) of its children.
+ *
+ * Supported syntax:
+ *  - `address.city` or `jobs.0.title`: dot separated property names
+ *  - `jobs[0]`, `jobs[-1]`: bracket indices, negative indices count back from the end
+ *  - `jobs[*].title`, `jobs.*.title`: wildcards that fan out to every child
+ *  - `["meta.data"]`, `meta\.data`: quoted or escaped property names
+ *  - `items[?(@.active)]`, `items[?(@.age >= 18 && @.role != 'admin')]`: predicate filters
+ */
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'filter'; expression: string; predicate: PathPredicate }
+
+export type PathPredicate = (item: unknown) => any
+
+export interface PathResolution {
+  found: boolean
+  value: any
+  /**
+   * The index of the first segment that resolved to nothing, or the number of segments when the
+   * path was found.
+   */
+  depth: number
+}
+
+export interface PathMatch {
+  /**
+   * The concrete property keys that lead to the matched value, with wildcards, filters and
+   * negative indices resolved.
+   */
+  keys: (string | number)[]
+  value: any
+}
+
+const KEY_TERMINATORS = '.[]'
+const FILTER_KEY_TERMINATORS = '.[]()=!<>&| \t\n'
+const NUMBER_LITERAL = /^-?\d+(\.\d+)?/
+
+const COMPARATORS: Record<string, (a: any, b: any) => boolean> = {
+  '==': (a, b) => a === b,
+  '!=': (a, b) => a !== b,
+  '<=': (a, b) => a <= b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '>': (a, b) => a > b,
+}
+const OPERATORS = Object.keys(COMPARATORS)
+
+const isDigit = (char: string) => char >= '0' && char <= '9'
+
+class PathParser {
+  private position = 0
+
+  constructor(private readonly path: string) {}
+
+  parse(): PathSegment[] {
+    const segments: PathSegment[] = []
+
+    if (this.isAtEnd()) return segments
+
+    segments.push(this.peek() === '[' ? this.parseBracket() : this.parseDotted(KEY_TERMINATORS))
+
+    while (!this.isAtEnd()) {
+      segments.push(this.parseNext(KEY_TERMINATORS))
+    }
+
+    return segments
+  }
+
+  private parseNext(terminators: string): PathSegment {
+    const char = this.peek()
+
+    if (char === '[') return this.parseBracket()
+
+    if (char === '.') {
+      this.position++
+
+      return this.parseDotted(terminators)
+    }
+
+    throw this.error(`Unexpected character "${char}"`)
+  }
+
+  private parseDotted(terminators: string): PathSegment {
+    if (this.peek() === '*') {
+      this.position++
+
+      return { type: 'wildcard' }
+    }
+
+    return { type: 'key', key: this.parseKey(terminators) }
+  }
+
+  private parseKey(terminators: string): string {
+    let key = ''
+
+    while (!this.isAtEnd() && !terminators.includes(this.peek())) {
+      if (this.peek() === '\\') {
+        if (this.position === this.path.length - 1) {
+          throw this.error('Unterminated escape sequence')
+        }
+
+        this.position++
+      }
+
+      key += this.path[this.position++]
+    }
+
+    if (!key) {
+      throw this.isAtEnd()
+        ? this.error('Expected a property name')
+        : this.error(`Unexpected character "${this.peek()}"`)
+    }
+
+    return key
+  }
+
+  private parseBracket(): PathSegment {
+    const start = this.position
+    let segment: PathSegment
+
+    this.position++
+    this.skipWhitespace()
+
+    const char = this.peek()
+
+    if (char === '*') {
+      this.position++
+      segment = { type: 'wildcard' }
+    } else if (char === '"' || char === "'") {
+      segment = { type: 'key', key: this.parseQuoted() }
+    } else if (char === '?') {
+      segment = this.parseFilter()
+    } else if (char === '-' || isDigit(char)) {
+      segment = { type: 'index', index: this.parseInteger() }
+    } else {
+      throw this.isAtEnd()
+        ? this.error('Unterminated bracket', start)
+        : this.error(`Unexpected character "${char}"`)
+    }
+
+    this.skipWhitespace()
+
+    if (this.peek() !== ']') {
+      throw this.isAtEnd()
+        ? this.error('Unterminated bracket', start)
+        : this.error(`Expected "]" but found "${this.peek()}"`)
+    }
+
+    this.position++
+
+    return segment
+  }
+
+  private parseQuoted(): string {
+    const start = this.position
+    const quote = this.path[this.position++]
+    let value = ''
+
+    while (this.peek() !== quote) {
+      if (this.isAtEnd()) {
+        throw this.error('Unterminated string', start)
+      }
+
+      if (this.peek() === '\\') {
+        this.position++
+
+        if (this.isAtEnd()) {
+          throw this.error('Unterminated string', start)
+        }
+      }
+
+      value += this.path[this.position++]
+    }
+
+    this.position++
+
+    return value
+  }
+
+  private parseInteger(): number {
+    const start = this.position
+
+    if (this.peek() === '-') this.position++
+
+    if (!isDigit(this.peek())) {
+      throw this.error(`Expected a digit but found "${this.peek() ?? 'end of path'}"`)
+    }
+
+    while (isDigit(this.peek())) {
+      this.position++
+    }
+
+    return parseInt(this.path.slice(start, this.position), 10)
+  }
+
+  private parseFilter(): PathSegment {
+    this.position++
+    this.expect('(')
+
+    const start = this.position
+    const predicate = this.parseOr()
+
+    this.skipWhitespace()
+
+    const expression = this.path.slice(start, this.position)
+
+    this.expect(')')
+
+    return { type: 'filter', expression, predicate }
+  }
+
+  private parseOr(): PathPredicate {
+    let left = this.parseAnd()
+
+    while (this.consume('||')) {
+      const [lhs, rhs] = [left, this.parseAnd()]
+
+      left = (item) => lhs(item) || rhs(item)
+    }
+
+    return left
+  }
+
+  private parseAnd(): PathPredicate {
+    let left = this.parseUnary()
+
+    while (this.consume('&&')) {
+      const [lhs, rhs] = [left, this.parseUnary()]
+
+      left = (item) => lhs(item) && rhs(item)
+    }
+
+    return left
+  }
+
+  private parseUnary(): PathPredicate {
+    this.skipWhitespace()
+
+    if (this.peek() === '!' && this.path[this.position + 1] !== '=') {
+      this.position++
+
+      const operand = this.parseUnary()
+
+      return (item) => !operand(item)
+    }
+
+    if (this.peek() === '(') {
+      this.position++
+
+      const expression = this.parseOr()
+
+      this.skipWhitespace()
+      this.expect(')')
+
+      return expression
+    }
+
+    return this.parseComparison()
+  }
+
+  private parseComparison(): PathPredicate {
+    const left = this.parseOperand()
+
+    this.skipWhitespace()
+
+    const operator = OPERATORS.find((op) => this.path.startsWith(op, this.position))
+
+    if (!operator) return left
+
+    this.position += operator.length
+
+    const right = this.parseOperand()
+    const compare = COMPARATORS[operator]
+
+    return (item) => compare(left(item), right(item))
+  }
+
+  private parseOperand(): PathPredicate {
+    this.skipWhitespace()
+
+    const char = this.peek()
+
+    if (char === '@') {
+      this.position++
+
+      const segments: PathSegment[] = []
+
+      while (this.peek() === '.' || this.peek() === '[') {
+        segments.push(this.parseNext(FILTER_KEY_TERMINATORS))
+      }
+
+      return (item) => evaluatePath(item, segments)
+    }
+
+    if (char === '"' || char === "'") {
+      const value = this.parseQuoted()
+
+      return () => value
+    }
+
+    const rest = this.path.slice(this.position)
+    const number = rest.match(NUMBER_LITERAL)
+
+    if (number) {
+      this.position += number[0].length
+
+      return () => parseFloat(number[0])
+    }
+
+    const literal = ['true', 'false', 'null'].find((word) => rest.startsWith(word))
+
+    if (literal) {
+      this.position += literal.length
+
+      return () => JSON.parse(literal)
+    }
+
+    throw this.isAtEnd()
+      ? this.error('Unterminated filter expression')
+      : this.error(`Unexpected character "${char}"`)
+  }
+
+  private consume(token: string): boolean {
+    this.skipWhitespace()
+
+    if (!this.path.startsWith(token, this.position)) return false
+
+    this.position += token.length
+
+    return true
+  }
+
+  private expect(char: string) {
+    if (this.peek() !== char) {
+      throw this.isAtEnd()
+        ? this.error(`Expected "${char}" but reached the end of the path`)
+        : this.error(`Expected "${char}" but found "${this.peek()}"`)
+    }
+
+    this.position++
+  }
+
+  private skipWhitespace() {
+    while (/\s/.test(this.peek() ?? '')) {
+      this.position++
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.path[this.position]
+  }
+
+  private isAtEnd(): boolean {
+    return this.position >= this.path.length
+  }
+
+  private error(reason: string, position = this.position): PathSyntaxError {
+    return new PathSyntaxError(this.path, position, reason)
+  }
+}
+
+/**
+ * The number of parsed paths kept in the cache, so that paths built on the fly, such as one per
+ * record, don't pile up.
+ */
+const PATH_CACHE_SIZE = 1000
+
+/**
+ * The most recently used parsed paths, from the least to the most recent one.
+ */
+const parsedPaths = new Map<string, PathSegment[]>()
+
+/**
+ * Parses a path into its segments, throwing a `PathSyntaxError` that points to the offending
+ * character when the path is malformed. The most recently used paths are cached.
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments = parsedPaths.get(path) || new PathParser(path).parse()
+
+  // Moves the path to the end of the cache, evicting the least recently used one when full
+  parsedPaths.delete(path)
+  parsedPaths.set(path, segments)
+
+  if (parsedPaths.size > PATH_CACHE_SIZE) {
+    parsedPaths.delete(parsedPaths.keys().next().value)
+  }
+
+  return segments
+}
+
+const toSegments = (path: string | PathSegment[]) =>
+  isString(path) ? parsePath(path as string) : (path as PathSegment[])
+
+const isFanOut = (segment: PathSegment) => segment.type === 'wildcard' || segment.type === 'filter'
+
+/**
+ * Whether the path can match more than one value.
+ */
+export const isFanOutPath = (path: string | PathSegment[]) => toSegments(path).some(isFanOut)
+
+/**
+ * The entries a wildcard or filter fans out to. Primitives, including strings, have none.
+ */
+function getChildren(value: any, segment: PathSegment): [string | number, any][] {
+  if (typeof value !== 'object') return []
+
+  const entries: [string | number, any][] = Array.isArray(value)
+    ? value.map((item, i) => [i, item])
+    : Object.entries(value)
+
+  return segment.type === 'filter' ? entries.filter(([, item]) => segment.predicate(item)) : entries
+}
+
+function resolveIndex(value: any, index: number) {
+  return index < 0 ? value.length + index : index
+}
+
+function walk(value: any, segments: PathSegment[], i: number): PathResolution {
+  if (i === segments.length) {
+    return { found: value !== undefined, value, depth: value === undefined ? i - 1 : i }
+  }
+
+  if (isNil(value)) return { found: false, value: undefined, depth: Math.max(i - 1, 0) }
+
+  const segment = segments[i]
+
+  switch (segment.type) {
+    case 'key':
+      return walk(value[segment.key], segments, i + 1)
+
+    case 'index':
+      return walk(value[resolveIndex(value, segment.index)], segments, i + 1)
+
+    case 'wildcard':
+    case 'filter':
+    default:
+      const fansOutAgain = segments.slice(i + 1).some(isFanOut)
+      // Children that don't contain the rest of the path are left out.
+      const matches = getChildren(value, segment).reduce((agg, [, child]) => {
+        const { found, value: match } = walk(child, segments, i + 1)
+
+        if (!found) return agg
+
+        return fansOutAgain ? agg.concat(match) : [...agg, match]
+      }, [])
+
+      return { found: true, value: matches, depth: segments.length }
+  }
+}
+
+/**
+ * Resolves the value at `path`, reporting whether it exists. Paths containing wildcards or
+ * filters resolve to the list of every value they match, and are found as long as the value
+ * they fan out from exists.
+ */
+export function resolvePath(target: any, path: string | PathSegment[]): PathResolution {
+  return walk(target, toSegments(path), 0)
+}
+
+/**
+ * Reads the value at `path`, or undefined when it doesn't exist.
+ */
+export function evaluatePath(target: any, path: string | PathSegment[]) {
+  return resolvePath(target, path).value
+}
+
+/**
+ * Formats parsed segments back into a path string.
+ */
+export function stringifyPath(segments: PathSegment[]): string {
+  return segments
+    .map((segment, i) => {
+      switch (segment.type) {
+        case 'key':
+          if (/^[^.[\]\\]+$/.test(segment.key) && segment.key !== '*') {
+            return i === 0 ? segment.key : `.${segment.key}`
+          }
+
+          return `[${JSON.stringify(segment.key)}]`
+
+        case 'index':
+          return `[${segment.index}]`
+
+        case 'wildcard':
+          return '[*]'
+
+        case 'filter':
+        default:
+          return `[?(${segment.expression})]`
+      }
+    })
+    .join('')
+}
+
+/**
+ * Resolves `path` into the list of concrete values it matches along with the property keys that
+ * lead to each of them. Branches that don't exist in `target` produce no match.
+ */
+export function expandPath(target: any, path: string | PathSegment[]): PathMatch[] {
+  const segments = toSegments(path)
+
+  const expand = (value: any, i: number, keys: (string | number)[]): PathMatch[] => {
+    if (i === segments.length) return value === undefined ? [] : [{ keys, value }]
+
+    if (isNil(value) || !(isPlainObject(value) || Array.isArray(value))) return []
+
+    const segment = segments[i]
+
+    switch (segment.type) {
+      case 'key':
+        return expand(value[segment.key], i + 1, [...keys, segment.key])
+
+      case 'index':
+        const index = resolveIndex(value, segment.index)
+
+        return expand(value[index], i + 1, [...keys, index])
+
+      case 'wildcard':
+      case 'filter':
+      default:
+        return getChildren(value, segment).reduce(
+          (matches, [key, child]) => matches.concat(expand(child, i + 1, [...keys, key])),
+          [] as PathMatch[]
+        )
+    }
+  }
+
+  return expand(target, 0, [])
+}
+
+/**
+ * Converts a path into the list of property keys `set` writes through. Numeric property names
+ * become array indices, and paths that fan out are rejected since they don't name a single
+ * location.
+ */
+export function toPropertyKeys(path: string): (string | number)[] {
+  return parsePath(path).map((segment) => {
+    switch (segment.type) {
+      case 'key':
+        const intKey = parseInt(segment.key, 10)
+
+        return intKey.toString() === segment.key ? intKey : segment.key
+
+      case 'index':
+        return segment.index
+
+      default:
+        throw new Error(
+          `Cannot write to the path "${path}" because it contains a wildcard or filter.`
+        )
+    }
+  })
+}
+
+/**
+ * Whether every segment of `prefix` matches the start of `path`.
+ */
+export const isPathPrefix = (prefix: PathSegment[], path: PathSegment[]) =>
+  prefix.length < path.length &&
+  prefix.every((segment, i) => JSON.stringify(segment) === JSON.stringify(path[i]))
+
+/**
+ * Copies the values at each of `paths` into a new object, at the same location they were read
+ * from unless `relocate` maps their keys, given along with the index of their path, elsewhere.
+ * When one path is a prefix of another (`['address', 'address.zipcode']`) only the more specific
+ * one is kept.
+ */
+export function aggregate(
+  source: any,
+  paths: string[],
+  relocate?: (keys: (string | number)[], index: number) => (string | number)[]
+): Record<string, any> {
+  const parsedPaths = paths.map(parsePath)
+
+  return parsedPaths.reduce((agg, path, i) => {
+    if (parsedPaths.some((other) => isPathPrefix(path, other))) return agg
+
+    expandPath(source, path).forEach(({ keys, value }) =>
+      set(agg, relocate ? relocate(keys, i) : keys, value)
+    )
+
+    return agg
+  }, {})
+}
@@ -0,0 +1,211 @@
+import {
+  AsyncValidatorFactory,
+  AsyncValidatorFn,
+  NamedRef,
+  RegistryKind,
+  TransformFactory,
+  TransformFn,
+  ValidatorFactory,
+  ValidatorFn,
+} from './types'
+import { Transforms } from './transforms'
+import {
+  dateAfterValidator,
+  dateBeforeValidator,
+  dateBetweenValidator,
+  emailValidator,
+  equalsPathValidator,
+  integerValidator,
+  maxItemsValidator,
+  maxLengthValidator,
+  maxValidator,
+  minItemsValidator,
+  minLengthValidator,
+  minValidator,
+  multipleOfValidator,
+  notOneOfValidator,
+  nullValidator,
+  oneOfValidator,
+  patternValidator,
+  requiredIfValidator,
+  requiredTrueValidator,
+  requiredUnlessValidator,
+  requiredValidator,
+  uniqueItemsValidator,
+  urlValidator,
+  uuidValidator,
+} from './validators'
+
+const LABELS: Record<RegistryKind, string> = {
+  transform: 'transform',
+  validator: 'validator',
+  asyncValidator: 'async validator',
+}
+
+export const isNamedRef = (ref: unknown): ref is NamedRef =>
+  typeof ref === 'string' || (Array.isArray(ref) && typeof ref[0] === 'string')
+
+/**
+ * Named transforms and validators that JSON schemas reference, e.g. `"trim"` or `["min", 12]`.
+ */
+export class Registry {
+  /**
+   * Factories creating the function a reference points to from the reference's arguments.
+   */
+  private entries: Record<RegistryKind, Map<string, (...args: any[]) => any>> = {
+    transform: new Map(),
+    validator: new Map(),
+    asyncValidator: new Map(),
+  }
+
+  /**
+   * The reference each function handed out by `resolve` was created from, so that schemas built
+   * from the registry can be serialized back.
+   */
+  private refs = new WeakMap<(...args: any[]) => any, NamedRef>()
+
+  /**
+   * Registers a transform. A reference with arguments calls it with the value followed by those
+   * arguments: `["suffix", "!"]` is `(value) => suffix(value, '!')`.
+   */
+  registerTransform(name: string, transform: TransformFn): this {
+    // Wrapped even without arguments, since the transform would otherwise receive the source as
+    // its second argument
+    this.entries.transform.set(
+      name,
+      (...args: any[]) =>
+        (value: any) =>
+          transform(value, ...args)
+    )
+    this.refs.set(transform, name)
+
+    return this
+  }
+
+  /**
+   * Registers a transform factory, called with the arguments of a reference to create the
+   * transform: `["round", 2]` is `factory(2)`.
+   */
+  registerTransformFactory(name: string, factory: TransformFactory): this {
+    this.entries.transform.set(name, factory)
+
+    return this
+  }
+
+  /**
+   * Registers a validator factory, called with the arguments of a reference to create the
+   * validator: `["min", 12]` is `factory(12)`.
+   */
+  registerValidator(name: string, factory: ValidatorFactory): this {
+    this.entries.validator.set(name, factory)
+
+    return this
+  }
+
+  registerAsyncValidator(name: string, factory: AsyncValidatorFactory): this {
+    this.entries.asyncValidator.set(name, factory)
+
+    return this
+  }
+
+  has(kind: RegistryKind, name: string): boolean {
+    return this.entries[kind].has(name)
+  }
+
+  /**
+   * The names registered for a kind of function, in alphabetical order.
+   */
+  names(kind: RegistryKind): string[] {
+    return [...this.entries[kind].keys()].sort()
+  }
+
+  /**
+   * Creates the function a reference points to, throwing when its name isn't registered.
+   */
+  resolve(kind: 'transform', ref: NamedRef): (value: any) => any
+  resolve(kind: 'validator', ref: NamedRef): ValidatorFn
+  resolve(kind: 'asyncValidator', ref: NamedRef): AsyncValidatorFn
+  resolve(kind: RegistryKind, ref: NamedRef): (...args: any[]) => any
+  resolve(kind: RegistryKind, ref: NamedRef): (...args: any[]) => any {
+    const [name, ...args] = typeof ref === 'string' ? [ref] : ref
+
+    if (!this.has(kind, name)) {
+      const names = this.names(kind).map((other) => `"${other}"`)
+
+      throw new Error(
+        `Unknown ${LABELS[kind]} "${name}". ` +
+          (names.length
+            ? `Available ${LABELS[kind]}s: ${names.join(', ')}.`
+            : 'None are registered.')
+      )
+    }
+
+    const fn = this.entries[kind].get(name)(...args)
+
+    this.refs.set(fn, ref)
+
+    return fn
+  }
+
+  /**
+   * The reference a function was resolved from, or undefined when it didn't come from the
+   * registry.
+   */
+  refOf(fn: (...args: any[]) => any): NamedRef | undefined {
+    return this.refs.get(fn)
+  }
+}
+
+/**
+ * The registry `loadSchema` and `serializeSchema` use by default, holding the built-in
+ * transforms and validators, along with those registered through `Validators.register`. The
+ * validator factories are wrapped since validators.ts imports this module, so they may not be
+ * defined yet.
+ */
+export const registry = new Registry()
+  .registerTransform('upperCase', Transforms.upperCase)
+  .registerTransform('lowerCase', Transforms.lowerCase)
+  .registerTransform('capitalize', Transforms.capitalize)
+  .registerTransform('camelCase', Transforms.camelCase)
+  .registerTransform('snakeCase', Transforms.snakeCase)
+  .registerTransform('kebabCase', Transforms.kebabCase)
+  .registerTransform('trim', Transforms.trim)
+  .registerTransformFactory('split', Transforms.split)
+  .registerTransformFactory('join', Transforms.join)
+  .registerTransformFactory('parseNumber', Transforms.parseNumber)
+  .registerTransformFactory('parseDate', Transforms.parseDate)
+  .registerTransformFactory('formatDate', Transforms.formatDate)
+  .registerTransformFactory('round', Transforms.round)
+  .registerTransformFactory('defaultTo', Transforms.defaultTo)
+  .registerTransformFactory('mapEnum', Transforms.mapEnum)
+  .registerTransform('parseJSON', Transforms.parseJSON)
+  .registerValidator('min', (min: number) => minValidator(min))
+  .registerValidator('max', (max: number) => maxValidator(max))
+  .registerValidator('minLength', (minLength: number) => minLengthValidator(minLength))
+  .registerValidator('maxLength', (maxLength: number) => maxLengthValidator(maxLength))
+  .registerValidator('minItems', (minItems: number) => minItemsValidator(minItems))
+  .registerValidator('maxItems', (maxItems: number) => maxItemsValidator(maxItems))
+  .registerValidator('uniqueItems', (path?: string) => uniqueItemsValidator(path))
+  .registerValidator('pattern', (pattern: string) => patternValidator(pattern))
+  .registerValidator('required', () => requiredValidator)
+  .registerValidator('requiredTrue', () => requiredTrueValidator)
+  .registerValidator('requiredIf', (path: string, condition?: unknown) =>
+    requiredIfValidator(path, condition)
+  )
+  .registerValidator('requiredUnless', (path: string, condition?: unknown) =>
+    requiredUnlessValidator(path, condition)
+  )
+  .registerValidator('null', () => nullValidator)
+  .registerValidator('email', () => emailValidator)
+  .registerValidator('url', () => urlValidator)
+  .registerValidator('uuid', () => uuidValidator)
+  .registerValidator('integer', () => integerValidator)
+  .registerValidator('multipleOf', (multipleOf: number) => multipleOfValidator(multipleOf))
+  .registerValidator('oneOf', (values: unknown[]) => oneOfValidator(values))
+  .registerValidator('notOneOf', (values: unknown[]) => notOneOfValidator(values))
+  .registerValidator('dateBefore', (date: string | number) => dateBeforeValidator(date))
+  .registerValidator('dateAfter', (date: string | number) => dateAfterValidator(date))
+  .registerValidator('dateBetween', (start: string | number, end: string | number) =>
+    dateBetweenValidator(start, end)
+  )
+  .registerValidator('equalsPath', (path: string) => equalsPathValidator(path))
@@ -0,0 +1,119 @@
+import { hookup } from '.'
+import { defineSchema } from './schema'
+import { Validators } from './validators'
+
+const person = {
+  _firstName: 'Miro',
+  Age: 10,
+  contactInfo: { email: 'miro@mediumwarmmail.com' },
+}
+
+const order = { id: 7, customer: person, billing: { customer: person } }
+
+const personSchema = defineSchema({
+  name: '_firstName',
+  age: { path: 'Age', validators: Validators.min(12) },
+  contact: { email: 'contactInfo.email' },
+})
+
+describe('defineSchema', () => {
+  it('Should extend a schema without changing it', () => {
+    const extended = personSchema.extend({ initial: (src) => src._firstName[0] })
+
+    expect(hookup(extended.schema, person)).toEqual({
+      name: 'Miro',
+      age: [{ min: { min: 12, actual: 10 } }],
+      contact: { email: 'miro@mediumwarmmail.com' },
+      initial: 'M',
+    })
+    expect(personSchema.schema).not.toHaveProperty('initial')
+  })
+
+  it('Should compose the validators of conflicting fields', () => {
+    const merged = personSchema.merge(
+      defineSchema({ age: { path: 'Age', validators: Validators.max(5) } })
+    )
+    const result = hookup(merged.schema, person, { mode: 'result' })
+
+    expect(result.errors).toEqual({
+      age: { min: { min: 12, actual: 10 }, max: { max: 5, actual: 10 } },
+    })
+  })
+
+  it('Should merge nested schemas and let the later field win otherwise', () => {
+    const merged = personSchema.extend({ name: 'Age', contact: { age: 'Age' } })
+
+    expect(hookup(merged.schema, person)).toMatchObject({
+      name: 10,
+      contact: { email: 'miro@mediumwarmmail.com', age: 10 },
+    })
+  })
+
+  it('Should pick and omit fields', () => {
+    expect(Object.keys(personSchema.pick('name', 'contact').schema)).toEqual(['name', 'contact'])
+    expect(Object.keys(personSchema.omit('age').schema)).toEqual(['name', 'contact'])
+  })
+
+  it('Should leave out missing fields of a partial schema', () => {
+    const partial = personSchema.partial()
+    const source: Partial<typeof person> = { Age: 20 }
+
+    expect(hookup(partial.schema, source, { missing: 'throw' })).toEqual({
+      age: 20,
+      contact: {},
+    })
+  })
+
+  it('Should re-root paths and FieldFns under a prefix', () => {
+    const prefixed = personSchema
+      .extend({ initial: (src: typeof person) => src._firstName[0] })
+      .prefix('customer')
+    const data = hookup(prefixed.schema, order)
+
+    expect(prefixed.schema.contact.email).toEqual('customer.contactInfo.email')
+    expect(data).toMatchObject({ name: 'Miro', initial: 'M' })
+  })
+
+  it('Should keep the shape of aggregated values under a prefix', () => {
+    const prefixed = defineSchema({
+      contact: ['_firstName', 'contactInfo.email'],
+      email: { path: ['contactInfo.email'], validators: Validators.required },
+      source: (src: typeof person, { source }) => src === source,
+    }).prefix('customer')
+    const contact = { _firstName: 'Miro', contactInfo: { email: 'miro@mediumwarmmail.com' } }
+
+    expect(hookup(prefixed.schema, order)).toEqual({
+      contact,
+      email: { contactInfo: contact.contactInfo },
+      source: true,
+    })
+    expect(
+      hookup(
+        defineSchema({ id: ['id'], names: ['customer._firstName'] }).rebase(
+          'customer',
+          'billing.customer'
+        ).schema,
+        order
+      )
+    ).toEqual({ id: { id: 7 }, names: { customer: { _firstName: 'Miro' } } })
+  })
+
+  it('Should rebase paths from one sub-object to another', () => {
+    const customerSchema = defineSchema({ id: 'id', name: 'customer._firstName' })
+    const rebased = customerSchema.rebase('customer', 'billing.customer')
+
+    expect(rebased.schema).toEqual({ id: 'id', name: 'billing.customer._firstName' })
+    expect(hookup(rebased.schema, order)).toEqual({ id: 7, name: 'Miro' })
+  })
+
+  it('Should keep the paths of derived schemas typed', () => {
+    const data: { name: string; email: string } = hookup(
+      personSchema.omit('age').extend({ email: 'contactInfo.email' }).pick('name', 'email').schema,
+      person
+    )
+
+    expect(data).toEqual({ name: 'Miro', email: 'miro@mediumwarmmail.com' })
+    // @ts-expect-error the path no longer exists once the schema is re-rooted
+    hookup(personSchema.prefix('client').schema, order)
+  })
+})
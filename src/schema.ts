@@ -0,0 +1,311 @@
+import { aggregate, parsePath, PathSegment, stringifyPath, toPropertyKeys } from './path'
+import {
+  FieldSelector,
+  MappingContext,
+  MergedSchema,
+  PartialSchema,
+  RebasedSchema,
+  SchemaShape,
+} from './types'
+import {
+  castArray,
+  get,
+  hasOwn,
+  isAsyncFunction,
+  isFieldSelector,
+  isFunction,
+  isGroupValidatorKey,
+  isPlainObject,
+} from './utils'
+import { Validators } from './validators'
+
+/**
+ * Whether `value` is a nested schema rather than one of the other field accessors.
+ */
+const isNestedSchema = (value: unknown) => isPlainObject(value) && !isFieldSelector(value)
+
+const isFieldFn = (value: unknown) => isFunction(value) || isAsyncFunction(value)
+
+/**
+ * Merges two field selectors. Options of `b` take precedence, except for validators, which are
+ * composed so that both sets run (those of `a` first), and `each` schemas and messages, which are
+ * merged.
+ */
+function mergeSelectors(a: FieldSelector, b: FieldSelector): FieldSelector {
+  const merged: FieldSelector = { ...a, ...b }
+
+  if (hasOwn(a, 'validators') || hasOwn(b, 'validators')) {
+    merged.validators = Validators.compose([
+      ...Validators.resolveAll(a.validators),
+      ...Validators.resolveAll(b.validators),
+    ])
+  }
+
+  if (hasOwn(a, 'asyncValidators') || hasOwn(b, 'asyncValidators')) {
+    merged.asyncValidators = Validators.composeAsync([
+      ...Validators.resolveAllAsync(a.asyncValidators),
+      ...Validators.resolveAllAsync(b.asyncValidators),
+    ])
+  }
+
+  if (a.each && b.each) {
+    merged.each = mergeSchemas(a.each, b.each)
+  }
+
+  if (a.messages && b.messages) {
+    merged.messages = { ...a.messages, ...b.messages }
+  }
+
+  return merged
+}
+
+/**
+ * Merges `b` into `a`. Keys that only one of them defines are kept as they are. On conflicts,
+ * two field selectors or two nested schemas are merged, group validators are concatenated, and
+ * any other accessor of `b` replaces the one of `a`.
+ */
+function mergeSchemas(a: object, b: object): any {
+  return Object.entries(b).reduce(
+    (merged, [k, v]) => {
+      const current = merged[k]
+
+      if (isGroupValidatorKey(k) && current) {
+        // Group validators of both schemas run
+        merged[k] = [...castArray(current), ...castArray(v)]
+      } else if (isFieldSelector(current) && isFieldSelector(v)) {
+        merged[k] = mergeSelectors(current, v)
+      } else if (isNestedSchema(current) && isNestedSchema(v)) {
+        merged[k] = mergeSchemas(current, v)
+      } else {
+        merged[k] = v
+      }
+
+      return merged
+    },
+    { ...a }
+  )
+}
+
+function partialSchema(schema: object): any {
+  return Object.entries(schema).reduce((partial, [k, v]) => {
+    if (typeof v === 'string') {
+      partial[k] = { path: v, missing: 'omit' }
+    } else if (isFieldSelector(v)) {
+      partial[k] = { ...v, missing: 'omit' }
+    } else if (isNestedSchema(v)) {
+      partial[k] = partialSchema(v)
+    } else {
+      partial[k] = v
+    }
+
+    return partial
+  }, {})
+}
+
+/**
+ * Moves `path` from under `from` to under `to`. Paths outside of `from`, or scoped to the root or
+ * parent source, are returned unchanged.
+ */
+function rebasePath(path: string, from: PathSegment[], to: PathSegment[]): string {
+  const segments = parsePath(path)
+  const [head] = segments
+
+  if (head && head.type === 'key' && (head.key === '$root' || head.key === '$parent')) {
+    return path
+  }
+
+  const isUnderFrom =
+    from.length <= segments.length &&
+    from.every((segment, i) => JSON.stringify(segment) === JSON.stringify(segments[i]))
+
+  return isUnderFrom ? stringifyPath([...to, ...segments.slice(from.length)]) : path
+}
+
+/**
+ * Rebases the paths of an aggregator, which also lay out its value. Rather than moving its value
+ * along, the aggregator becomes a selector of the whole source whose first transform aggregates
+ * the rebased paths at the keys of the original ones.
+ */
+function rebaseAggregator(selector: FieldSelector, from: PathSegment[], to: PathSegment[]) {
+  const paths = selector.path as string[]
+  const rebased = paths.map((path) => rebasePath(path, from, to))
+
+  if (rebased.every((path, i) => path === paths[i])) return selector
+
+  const fromKeys = toPropertyKeys(stringifyPath(from))
+  const relocate = (keys: (string | number)[], i: number) =>
+    rebased[i] === paths[i] ? keys : [...fromKeys, ...keys.slice(to.length)]
+  const aggregateFn = (source: any) => aggregate(source, rebased, relocate)
+
+  return {
+    ...selector,
+    path: '',
+    transform: [aggregateFn, ...castArray(selector.transform || [])],
+  }
+}
+
+function rebaseSchema(schema: object, from: PathSegment[], to: PathSegment[]): any {
+  const rebasePaths = (paths: string | string[]) =>
+    Array.isArray(paths)
+      ? paths.map((path) => rebasePath(path, from, to))
+      : rebasePath(paths, from, to)
+
+  return Object.entries(schema).reduce((rebased, [k, v]) => {
+    if (isGroupValidatorKey(k)) {
+      rebased[k] = v
+    } else if (typeof v === 'string') {
+      rebased[k] = rebasePaths(v)
+    } else if (Array.isArray(v)) {
+      const selector = rebaseAggregator({ path: v }, from, to)
+
+      rebased[k] = selector.path === v ? v : selector
+    } else if (isFieldSelector(v) && Array.isArray(v.path)) {
+      rebased[k] = rebaseAggregator(v, from, to)
+    } else if (isFieldSelector(v)) {
+      const fieldSelector: FieldSelector = { ...v, path: rebasePaths(v.path) }
+
+      if (v.fallbacks) {
+        fieldSelector.fallbacks = rebasePaths(v.fallbacks) as string[]
+      }
+
+      rebased[k] = fieldSelector
+    } else if (isNestedSchema(v)) {
+      rebased[k] = rebaseSchema(v, from, to)
+    } else {
+      rebased[k] = v
+    }
+
+    return rebased
+  }, {})
+}
+
+/**
+ * Wraps every FieldFn of the schema so that it receives the value at `path` instead of the
+ * whole source, both as its source and as the `source` of its context.
+ */
+function scopeFieldFns(schema: object, path: string): any {
+  return Object.entries(schema).reduce((scoped, [k, v]) => {
+    if (isFieldFn(v) && !isGroupValidatorKey(k)) {
+      scoped[k] = (iteratee: any, context?: MappingContext, ...args: any[]) => {
+        const source = get(iteratee, path)
+
+        return v(source, context && { ...context, source }, ...args)
+      }
+    } else if (isNestedSchema(v)) {
+      scoped[k] = scopeFieldFns(v, path)
+    } else {
+      scoped[k] = v
+    }
+
+    return scoped
+  }, {})
+}
+
+/**
+ * A schema along with helpers to derive new schemas from it. Definitions are immutable: every
+ * helper returns a new definition and leaves the original untouched.
+ *
+ * ```ts
+ * const person = defineSchema({ name: '_firstName', age: { path: 'Age', validators: [min] } })
+ * const employee = person.extend({ title: 'jobs.0.title' }).omit('age')
+ *
+ * hookup(employee.schema, source)
+ * ```
+ */
+export class SchemaDefinition<S extends object = SchemaShape> {
+  get schema() {
+    return this._schema
+  }
+  private _schema: S
+
+  constructor(schema: S) {
+    this._schema = schema
+  }
+
+  /**
+   * Adds the given fields to the schema. Fields that already exist are merged with the new ones:
+   * see `merge`.
+   */
+  extend<E extends SchemaShape<P>, P extends string>(
+    fields: E
+  ): SchemaDefinition<MergedSchema<S, E>> {
+    return new SchemaDefinition(mergeSchemas(this._schema, fields))
+  }
+
+  /**
+   * Combines this schema with another one. On conflicting keys, two field selectors are merged
+   * with the options of `definition` taking precedence and their validators composed through
+   * `Validators.compose`, two nested schemas are merged recursively, and in any other case the
+   * field of `definition` wins.
+   */
+  merge<T extends object>(definition: SchemaDefinition<T>): SchemaDefinition<MergedSchema<S, T>> {
+    return new SchemaDefinition(mergeSchemas(this._schema, definition.schema))
+  }
+
+  /**
+   * Keeps only the given top-level fields.
+   */
+  pick<K extends keyof S>(...keys: K[]): SchemaDefinition<Pick<S, K>> {
+    return new SchemaDefinition(
+      keys.reduce((picked, key) => {
+        if (hasOwn(this._schema, key)) {
+          picked[key] = this._schema[key]
+        }
+
+        return picked
+      }, {} as Pick<S, K>)
+    )
+  }
+
+  /**
+   * Leaves out the given top-level fields.
+   */
+  omit<K extends keyof S>(...keys: K[]): SchemaDefinition<Omit<S, K>> {
+    const omitted = { ...this._schema }
+
+    keys.forEach((key) => delete omitted[key])
+
+    return new SchemaDefinition(omitted as Omit<S, K>)
+  }
+
+  /**
+   * Makes every path optional: fields whose path can't be resolved are left out of the target,
+   * whatever the `missing` option of `hookup`, and skip validation. FieldFns and aggregated
+   * paths are kept as they are.
+   */
+  partial(): SchemaDefinition<PartialSchema<S>> {
+    return new SchemaDefinition(partialSchema(this._schema))
+  }
+
+  /**
+   * Re-roots the schema under the sub-object at `path`: every path is prefixed with it and every
+   * FieldFn receives the value at `path` instead of the whole source. Aggregated values keep their
+   * shape, e.g. `['address.city']` still produces `{ address: { city } }`.
+   */
+  prefix<P extends string>(path: P): SchemaDefinition<RebasedSchema<S, '', P>> {
+    const rebased = rebaseSchema(this._schema, [], parsePath(path))
+
+    return new SchemaDefinition(scopeFieldFns(rebased, path))
+  }
+
+  /**
+   * Moves every path under `from` to under `to`, leaving other paths unchanged. An empty `to`
+   * makes the paths relative to the source itself.
+   */
+  rebase<F extends string, T extends string>(
+    from: F,
+    to: T
+  ): SchemaDefinition<RebasedSchema<S, F, T>> {
+    return new SchemaDefinition(rebaseSchema(this._schema, parsePath(from), parsePath(to)))
+  }
+}
+
+/**
+ * Creates a `SchemaDefinition`, keeping the paths of `schema` as literal types so that the
+ * definitions derived from it can still be checked and inferred by `hookup`.
+ */
+export function defineSchema<S extends SchemaShape<P>, P extends string>(
+  schema: S
+): SchemaDefinition<S> {
+  return new SchemaDefinition(schema)
+}
@@ -0,0 +1,101 @@
+import { hookup, hookupAsync } from '.'
+import { loadSchema } from './loader'
+import { Transforms } from './transforms'
+import { MappingContext } from './types'
+
+describe('Transforms', () => {
+  it('Should change the case of strings', () => {
+    expect(Transforms.upperCase('miro')).toEqual('MIRO')
+    expect(Transforms.capitalize('miro')).toEqual('Miro')
+    expect(Transforms.camelCase('first_name')).toEqual('firstName')
+    expect(Transforms.snakeCase('firstName')).toEqual('first_name')
+    expect(Transforms.kebabCase('First Name')).toEqual('first-name')
+    expect(Transforms.upperCase(undefined)).toBeUndefined()
+  })
+
+  it('Should split and join', () => {
+    expect(Transforms.split(/\s*,\s*/)('cook, baker')).toEqual(['cook', 'baker'])
+    expect(Transforms.join(' & ')(['cook', 'baker'])).toEqual('cook & baker')
+  })
+
+  it('Should parse numbers in a locale', () => {
+    expect(Transforms.parseNumber('de-DE')('1.234,5')).toEqual(1234.5)
+    expect(Transforms.parseNumber('en-US')('1,234.5')).toEqual(1234.5)
+    expect(Transforms.parseNumber()('n/a')).toBeNaN()
+  })
+
+  it('Should parse and format dates', () => {
+    const date = Transforms.parseDate('DD/MM/YYYY', { utc: true })('25/12/2020')
+
+    expect(date).toEqual(new Date(Date.UTC(2020, 11, 25)))
+    expect(Transforms.formatDate('YYYY-MM-DD HH:mm', { utc: true })(date)).toEqual(
+      '2020-12-25 00:00'
+    )
+    expect(Transforms.parseDate('DD/MM/YYYY')('2020-12-25').getTime()).toBeNaN()
+    expect(Transforms.parseDate('DD/MM/YYYY')('31/02/2021').getTime()).toBeNaN()
+    expect(Transforms.parseDate('YYYY-MM', { utc: true })('2020-13').getTime()).toBeNaN()
+    expect(Transforms.parseDate('HH:mm', { utc: true })('24:00').getTime()).toBeNaN()
+    expect(Transforms.parseDate('DD/MM/YYYY', { utc: true })('29/02/2020')).toEqual(
+      new Date(Date.UTC(2020, 1, 29))
+    )
+  })
+
+  it('Should round, default and map values', () => {
+    expect(Transforms.round(2)(1.005)).toEqual(1.01)
+    expect(Transforms.round(-2)(1250)).toEqual(1300)
+    expect(Transforms.round(-1)(-14)).toEqual(-10)
+    expect(Transforms.round(2)(1.2345e-7)).toEqual(0)
+    expect(Transforms.round(8)(1.2345e-7)).toEqual(1.2e-7)
+    expect(Transforms.round(2)(Infinity)).toEqual(Infinity)
+    expect(Transforms.round(2)(-Infinity)).toEqual(-Infinity)
+    expect(() => Transforms.round(1.5)).toThrow('Expected an integer number of decimals, got 1.5.')
+    expect(Transforms.defaultTo(0)(NaN)).toEqual(0)
+    expect(Transforms.mapEnum({ F: 'female' })('F')).toEqual('female')
+    expect(Transforms.mapEnum({ F: 'female' })('X')).toEqual('X')
+    expect(Transforms.mapEnum({ F: 'female' }, { fallback: 'unknown' })('X')).toEqual('unknown')
+    expect(Transforms.parseJSON('{"a":1}')).toEqual({ a: 1 })
+  })
+})
+
+describe('hookup transforms', () => {
+  const source = { price: ' 1.234,567 ', currency: 'EUR' }
+
+  it('Should apply a list of transforms as a pipeline', () => {
+    const data = hookup(
+      {
+        price: {
+          path: 'price',
+          transform: [Transforms.trim, Transforms.parseNumber('de-DE'), Transforms.round(2)],
+        },
+      },
+      source
+    )
+
+    expect(data).toEqual({ price: 1234.57 })
+  })
+
+  it('Should pass the source to transforms', async () => {
+    const schema = {
+      price: {
+        path: 'price',
+        transform: [
+          Transforms.parseNumber('de-DE'),
+          (value: number, ctx: MappingContext<unknown, typeof source>) =>
+            `${value} ${ctx.source.currency}`,
+        ],
+      },
+    }
+
+    expect(hookup(schema, source)).toEqual({ price: '1234.567 EUR' })
+    expect(await hookupAsync(schema, source)).toEqual({ price: '1234.567 EUR' })
+  })
+
+  it('Should load pipelines from JSON', () => {
+    const schema = loadSchema({
+      price: { path: 'price', transform: ['trim', ['parseNumber', 'de-DE'], ['round', 1]] },
+      currency: { path: 'currency', transform: [['mapEnum', { EUR: '€' }]] },
+    })
+
+    expect(hookup(schema, source)).toEqual({ price: 1234.6, currency: '€' })
+  })
+})
@@ -0,0 +1,264 @@
+import { FieldTransform, MappingContext, NamedRef } from './types'
+import { hasOwn, isNil } from './utils'
+
+/**
+ * The references the transforms created by the factories of `Transforms` were created from, e.g.
+ * `['round', 2]`, so that schemas using them can be serialized.
+ */
+const transformRefs = new WeakMap<FieldTransform, NamedRef>()
+
+/**
+ * Only applies `fn` to strings, passing any other value through so that transforms can be
+ * chained over values that may be missing.
+ */
+const onString =
+  <R>(fn: (value: string) => R) =>
+  (value: any): R | any =>
+    typeof value === 'string' ? fn(value) : value
+
+/**
+ * Splits a string into its words, on separators as well as on case changes (`firstName`).
+ */
+const toWords = (value: string) =>
+  value.match(/[A-Z]{2,}(?=[A-Z][a-z]|\d|\b|_)|[A-Z]?[a-z]+|[A-Z]+|\d+/g) || []
+
+/**
+ * Multiplies a number by a power of ten through its exponent, avoiding floating point errors.
+ */
+const shift = (value: number, exponent: number) => {
+  const [mantissa, e = '0'] = String(value).split('e')
+
+  return Number(`${mantissa}e${Number(e) + exponent}`)
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1)
+
+/**
+ * The group and decimal separators numbers are written with in `locale`.
+ */
+function getSeparators(locale?: string) {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6)
+  const find = (type: string) => (parts.find((part) => part.type === type) || { value: '' }).value
+
+  return { group: find('group'), decimal: find('decimal') }
+}
+
+const DATE_TOKENS = /YYYY|MM|DD|HH|mm|ss|SSS/g
+
+interface DateOptions {
+  /**
+   * Reads and writes dates in UTC rather than in the local time zone.
+   */
+  utc?: boolean
+}
+
+function getDateParts(date: Date, utc: boolean): Record<string, number> {
+  const get = (unit: string) => date[`get${utc ? 'UTC' : ''}${unit}`]()
+
+  return {
+    YYYY: get('FullYear'),
+    MM: get('Month') + 1,
+    DD: get('Date'),
+    HH: get('Hours'),
+    mm: get('Minutes'),
+    ss: get('Seconds'),
+    SSS: get('Milliseconds'),
+  }
+}
+
+/**
+ * Common transforms for `FieldSelector.transform`. Transforms that take options are factories
+ * returning the transform, the others are transforms themselves:
+ *
+ * ```ts
+ * const price = { path: 'price', transform: [Transforms.trim, Transforms.parseNumber('de-DE')] }
+ * ```
+ *
+ * Values of an unexpected type, such as a missing value, are passed through unchanged.
+ */
+export class Transforms {
+  static upperCase = onString((value) => value.toUpperCase())
+
+  static lowerCase = onString((value) => value.toLowerCase())
+
+  static capitalize = onString(capitalize)
+
+  static camelCase = onString((value) =>
+    toWords(value)
+      .map((word, i) => (i === 0 ? word.toLowerCase() : capitalize(word.toLowerCase())))
+      .join('')
+  )
+
+  static snakeCase = onString((value) =>
+    toWords(value)
+      .map((word) => word.toLowerCase())
+      .join('_')
+  )
+
+  static kebabCase = onString((value) =>
+    toWords(value)
+      .map((word) => word.toLowerCase())
+      .join('-')
+  )
+
+  static trim = onString((value) => value.trim())
+
+  static split(separator: string | RegExp, limit?: number) {
+    return onString((value) => value.split(separator, limit))
+  }
+
+  static join(separator = ',') {
+    return (value: any) => (Array.isArray(value) ? value.join(separator) : value)
+  }
+
+  /**
+   * Parses numbers written with the group and decimal separators of `locale` (`'1.234,5'` in
+   * `'de-DE'`). Strings that aren't numbers become `NaN`.
+   */
+  static parseNumber(locale?: string) {
+    const { group, decimal } = getSeparators(locale)
+
+    return onString((value) => {
+      const normalized = value
+        .trim()
+        .split(group)
+        .join('')
+        .split(decimal)
+        .join('.')
+        .replace(/\s/g, '')
+
+      return normalized === '' ? NaN : Number(normalized)
+    })
+  }
+
+  /**
+   * Parses strings and timestamps into dates. Without a `format` strings are read as ISO 8601,
+   * otherwise `format` describes where the parts of the date are, using the tokens `YYYY`,
+   * `MM`, `DD`, `HH`, `mm`, `ss` and `SSS` (`'DD/MM/YYYY'`). Strings that don't match, or whose
+   * parts are out of range, become an invalid date.
+   */
+  static parseDate(format?: string, options: DateOptions = {}) {
+    const tokens: string[] = (format && format.match(DATE_TOKENS)) || []
+    const pattern = format
+      ? new RegExp(
+          `^${format
+            .split(DATE_TOKENS)
+            .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+            .join('(\\d+)')}$`
+        )
+      : null
+
+    return (value: any) => {
+      if (typeof value === 'number') return new Date(value)
+      if (typeof value !== 'string') return value
+      if (!pattern) return new Date(value)
+
+      const match = value.trim().match(pattern)
+
+      if (!match) return new Date(NaN)
+
+      const parsed = tokens.reduce(
+        (parts, token, i) => ({ ...parts, [token]: parseInt(match[i + 1], 10) }),
+        { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0, SSS: 0 }
+      )
+      const { YYYY, MM, DD, HH, mm, ss, SSS } = parsed
+      const date = options.utc
+        ? new Date(Date.UTC(YYYY, MM - 1, DD, HH, mm, ss, SSS))
+        : new Date(YYYY, MM - 1, DD, HH, mm, ss, SSS)
+      const parts = getDateParts(date, !!options.utc)
+
+      // Parts out of range, such as February 31st, roll over into the next unit
+      return tokens.every((token) => parts[token] === parsed[token]) ? date : new Date(NaN)
+    }
+  }
+
+  /**
+   * Formats dates with the same tokens as `parseDate`. Strings and timestamps are parsed first.
+   */
+  static formatDate(format: string, options: DateOptions = {}) {
+    return (value: any) => {
+      const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : value
+
+      if (!(date instanceof Date) || isNaN(date.getTime())) return value
+
+      const parts = getDateParts(date, !!options.utc)
+
+      return format.replace(DATE_TOKENS, (token) =>
+        String(parts[token]).padStart(token.length, '0')
+      )
+    }
+  }
+
+  /**
+   * Rounds numbers to `decimals` decimal places, or to tens, hundreds, etc. when it's negative.
+   * Infinities and `NaN` are passed through.
+   */
+  static round(decimals = 0) {
+    if (!Number.isInteger(decimals)) {
+      throw new TypeError(`Expected an integer number of decimals, got ${decimals}.`)
+    }
+
+    return (value: any) =>
+      Number.isFinite(value) ? shift(Math.round(shift(value, decimals)), -decimals) : value
+  }
+
+  /**
+   * Replaces null, undefined and `NaN` with `defaultValue`.
+   */
+  static defaultTo(defaultValue: unknown) {
+    return (value: any) => (isNil(value) || Number.isNaN(value) ? defaultValue : value)
+  }
+
+  /**
+   * Maps values through `map`. Values that aren't in it are replaced by `options.fallback` when
+   * given, and passed through otherwise.
+   */
+  static mapEnum(map: Record<string, unknown>, options: { fallback?: unknown } = {}) {
+    return (value: any) => {
+      if (hasOwn(map, value)) return map[value]
+
+      return 'fallback' in options ? options.fallback : value
+    }
+  }
+
+  static parseJSON = onString((value) => JSON.parse(value))
+
+  /**
+   * The reference a transform created by one of the factories above was created from, e.g.
+   * `['round', 2]` for `Transforms.round(2)`, or undefined for any other transform.
+   */
+  static refOf(transform: FieldTransform): NamedRef | undefined {
+    return transformRefs.get(transform)
+  }
+
+  /**
+   * Chains transforms into one, each receiving the value returned by the previous one.
+   */
+  static pipe(...transforms: FieldTransform[]) {
+    return (value: any, context?: MappingContext) =>
+      transforms.reduce((result, transform) => transform(result, context), value)
+  }
+}
+
+const FACTORIES = [
+  'split',
+  'join',
+  'parseNumber',
+  'parseDate',
+  'formatDate',
+  'round',
+  'defaultTo',
+  'mapEnum',
+] as const
+
+FACTORIES.forEach((name) => {
+  const factory: (...args: any[]) => FieldTransform = Transforms[name]
+
+  Transforms[name] = (...args: any[]) => {
+    const transform = factory(...args)
+
+    transformRefs.set(transform, args.length ? [name, ...args] : name)
+
+    return transform
+  }
+})
@@ -1,5 +1,12 @@
+import { ErrorTree } from './errors'
+
 export type Constructor<T = any> = new () => T
 
+/**
+ * Keeps a type parameter from being inferred from the position it's used in.
+ */
+export type NoInfer<T> = [T][T extends any ? 0 : never]
+
 export type Collection<T extends object = object> = T[]
 export type CollectionItem = Record<string, any>
 
@@ -10,16 +17,30 @@ export type Schema<
   [destinationProperty in keyof Target]?:
     | FieldPath<Source>
     | {
-        (
-          iteratee: Source,
-          source: Source[],
-          target: Target[destinationProperty]
-        ): Target[destinationProperty]
+        (source: Source, context: MappingContext):
+          | Target[destinationProperty]
+          | Promise<Target[destinationProperty]>
       }
     | FieldAggregator<Source>
     | FieldSelector<Source>
     | Schema<Target[destinationProperty], Source>
+    // Keys of sources indexed by any string include those of the group validators
+    | GroupValidators[GroupValidatorKey]
+} & GroupValidators
+
+/**
+ * Validators of the group of fields a schema describes, which receive the resolved group as
+ * their input. Their errors are attached to the group under `$errors`.
+ */
+export interface GroupValidators {
+  $validators?: ValidatorFn | string | ValidatorLike[]
+  /**
+   * These are only run by `hookupAsync`.
+   */
+  $asyncValidators?: AsyncValidatorFn | string | AsyncValidatorLike[]
 }
+
+type GroupValidatorKey = keyof GroupValidators
 // export type Source<T extends object = object> = T | Collection<T>
 
 export type FieldValue<T = any> = T | { value: T }
@@ -30,6 +51,27 @@ export enum FieldStatus {
   PENDING = 'PENDING',
 }
 
+/**
+ * Options of the methods updating the value of a `Field` or `FieldGroup`.
+ */
+export interface FieldUpdateOptions {
+  /**
+   * Only updates the field itself, leaving the value and status of its parent as they are.
+   * Defaults to false.
+   */
+  onlySelf?: boolean
+  /**
+   * Notifies the subscribers of `valueChanges` and `statusChanges`. Defaults to true.
+   */
+  emitEvent?: boolean
+}
+
+export type Listener<T> = (event: T) => void
+
+export interface Subscription {
+  unsubscribe(): void
+}
+
 export enum FieldAccessorType {
   FieldEntry = 'FieldEntry',
   FieldPaths = 'FieldPaths',
@@ -40,7 +82,393 @@ export enum FieldAccessorType {
 
 export type FieldPath<Source> = string | keyof Source
 
-export type FieldFn<D = any, S = any, R = any> = (iteratee: S, source: S[], target: D) => R
+type IsAny<T> = 0 extends 1 & T ? true : false
+
+/**
+ * Sources whose keys aren't statically known, so their paths can't be checked.
+ */
+type IsOpaque<T> = IsAny<T> extends true
+  ? true
+  : [keyof T] extends [never]
+  ? true
+  : string extends keyof T
+  ? true
+  : false
+
+type PathLeaf = Date | RegExp | ((...args: any[]) => any)
+
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6]
+
+/**
+ * Paths using brackets, escapes, wildcards or the `$root`/`$parent` prefixes. They are accepted
+ * without being checked against the source and resolve to `any`.
+ */
+type PathExpression =
+  | `${string}[${string}`
+  | `${string}\\${string}`
+  | `${string}*${string}`
+  | `$root${string}`
+  | `$parent${string}`
+
+/**
+ * The dot-separated paths that exist in `T`, down to a depth of 6. Array items are addressed by
+ * numeric segments (`jobs.0.title`).
+ */
+export type PathOf<T, Depth extends number = 6> = [Depth] extends [never]
+  ? never
+  : T extends PathLeaf
+  ? never
+  : T extends readonly (infer Item)[]
+  ? `${number}` | `${number}.${PathOf<NonNullable<Item>, PrevDepth[Depth]>}`
+  : T extends object
+  ? {
+      [K in keyof T & (string | number)]:
+        | `${K}`
+        | `${K}.${PathOf<NonNullable<T[K]>, PrevDepth[Depth]>}`
+    }[keyof T & (string | number)]
+  : never
+
+/**
+ * The paths a schema may use to read from `Source`. Any string is accepted when the shape of the
+ * source isn't statically known.
+ */
+export type FieldPathOf<Source> = IsOpaque<Source> extends true
+  ? string
+  : PathOf<Source> | PathExpression
+
+type ChildOf<T, K extends string> = T extends readonly (infer Item)[]
+  ? K extends `${number}`
+    ? Item | undefined
+    : undefined
+  : K extends keyof T
+  ? T[K]
+  : undefined
+
+/**
+ * The type of the value found at path `P` of `T`.
+ */
+export type PathValue<T, P extends string> = IsOpaque<T> extends true
+  ? any
+  : string extends P
+  ? any
+  : P extends PathExpression
+  ? any
+  : P extends `${infer K}.${infer Rest}`
+  ?
+      | PathValue<NonNullable<ChildOf<T, K>>, Rest>
+      | (undefined extends ChildOf<T, K> ? undefined : never)
+  : ChildOf<T, P>
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (x: infer I) => void
+  ? I
+  : never
+
+type PathObject<T, P extends string> = string extends P
+  ? Record<string, any>
+  : P extends PathExpression
+  ? Record<string, any>
+  : P extends `${infer K}.${infer Rest}`
+  ? { [_ in K]: PathObject<NonNullable<ChildOf<T, K>>, Rest> }
+  : { [_ in P]: PathValue<T, P> }
+
+type AggregateValue<T, P> = UnionToIntersection<P extends string ? PathObject<T, P> : never>
+
+type ItemOf<V> = V extends readonly (infer Item)[] ? Item : NonNullable<V>
+
+type InferPath<Source, P> = P extends string
+  ? PathValue<Source, P>
+  : P extends readonly string[]
+  ? AggregateValue<Source, P[number]>
+  : unknown
+
+type InferAccessor<A, Source> = A extends string
+  ? PathValue<Source, A>
+  : A extends (...args: any[]) => infer R
+  ? R
+  : A extends readonly string[]
+  ? AggregateValue<Source, A[number]>
+  : A extends { transform: (...args: any[]) => infer R }
+  ? R
+  : A extends { transform: readonly [...any[], (...args: any[]) => infer R] }
+  ? R
+  : A extends { join: infer J }
+  ? InferJoin<J>
+  : A extends { path: infer P; each: object }
+  ? InferPath<Source, P> extends readonly any[]
+    ? Infer<A['each'], ItemOf<InferPath<Source, P>>>[]
+    : A extends { type: 'array' }
+    ? Infer<A['each'], ItemOf<InferPath<Source, P>>>[]
+    : Infer<A['each'], ItemOf<InferPath<Source, P>>>
+  : A extends { path: infer P; type: FieldType }
+  ? A['type'] extends 'array'
+    ? ItemOf<InferPath<Source, P>>[]
+    : FieldTypes[A['type']]
+  : A extends { path: infer P; default: infer D }
+  ? Exclude<InferPath<Source, P>, undefined> | D
+  : A extends { path: infer P }
+  ? InferPath<Source, P>
+  : A extends object
+  ? Infer<A, Source>
+  : unknown
+
+type InferJoin<J> = J extends { schema: infer S }
+  ? J extends { many: true }
+    ? Infer<S>[]
+    : Infer<S>
+  : J extends { many: true }
+  ? any[]
+  : any
+
+/**
+ * The type of the target that `hookup` produces when mapping `Source` with the schema `S`:
+ *
+ * ```ts
+ * const schema = { name: '_firstName', city: (src: Person) => src.address.city }
+ * type Target = Infer<typeof schema, Person> // { name: string; city: string }
+ * ```
+ *
+ * Properties read from a path get the type found at that path, FieldFns and transforms their
+ * return type, and `each` sub-schemas the inferred type of their items. Paths using brackets,
+ * wildcards or the `$root`/`$parent` prefixes infer `any`.
+ */
+export type Infer<S, Source = any> = Flatten<
+  {
+    -readonly [K in Exclude<keyof S, OmittableKeys<S> | GroupValidatorKey>]: InferAccessor<
+      S[K],
+      Source
+    >
+  } & {
+    -readonly [K in OmittableKeys<S>]?: InferAccessor<S[K], Source>
+  }
+>
+
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+/**
+ * Keys of fields that are left out of the target when their path is missing.
+ */
+type OmittableKeys<S> = {
+  [K in keyof S]: S[K] extends { missing: 'omit' }
+    ? S[K] extends { default: any }
+      ? never
+      : K
+    : never
+}[keyof S]
+
+type CheckPath<P, Source> = string extends P
+  ? P
+  : P extends FieldPathOf<Source>
+  ? P
+  : FieldPathOf<Source>
+
+type CheckPaths<P, Source> = P extends string
+  ? CheckPath<P, Source>
+  : P extends readonly string[]
+  ? { [I in keyof P]: CheckPath<P[I], Source> }
+  : P
+
+type CheckAccessor<A, Source> = A extends string
+  ? CheckPath<A, Source>
+  : A extends (...args: any[]) => any
+  ? A
+  : A extends readonly string[]
+  ? CheckPaths<A, Source>
+  : A extends { path: infer P }
+  ? {
+      [K in keyof A]: K extends 'path'
+        ? CheckPaths<P, Source>
+        : K extends 'each'
+        ? CheckedSchema<A[K], ItemOf<InferPath<Source, P>>>
+        : A[K]
+    }
+  : A extends object
+  ? CheckedSchema<A, Source>
+  : A
+
+/**
+ * `S` with every path checked against `Source`, so that an invalid path becomes a compile error.
+ */
+export type CheckedSchema<S, Source> = {
+  [K in keyof S]: CheckAccessor<S[K], Source>
+}
+
+/**
+ * `S` itself when all of its paths exist in `Source`, otherwise the `CheckedSchema` it fails
+ * against, which points the compiler at the offending path.
+ */
+export type ValidSchema<S, Source> = S extends CheckedSchema<S, Source>
+  ? S
+  : CheckedSchema<S, Source>
+
+/**
+ * The shape `hookup` infers schemas against. Binding paths to `P` keeps them as literal types.
+ */
+export type SchemaShape<P extends string = string> = {
+  [key: string]:
+    | P
+    | readonly P[]
+    | ((...args: any[]) => any)
+    | readonly ((...args: any[]) => any)[]
+    | { path: P | readonly P[]; each?: SchemaShape<P>; [option: string]: any }
+    | SchemaShape<P>
+    | Schema<any, any>[string]
+}
+
+type FieldAccessorLike = string | readonly any[] | ((...args: any[]) => any) | { path: any }
+
+type MergedAccessor<A, B> = A extends { path: any }
+  ? B extends { path: any }
+    ? {
+        [K in keyof A | keyof B]: K extends keyof B
+          ? K extends 'each'
+            ? K extends keyof A
+              ? MergedSchema<A[K], B[K]>
+              : B[K]
+            : B[K]
+          : K extends keyof A
+          ? A[K]
+          : never
+      }
+    : B
+  : A extends FieldAccessorLike
+  ? B
+  : B extends FieldAccessorLike
+  ? B
+  : MergedSchema<A, B>
+
+/**
+ * The schema `SchemaDefinition.extend` and `SchemaDefinition.merge` produce from `A` and `B`.
+ */
+export type MergedSchema<A, B> = {
+  [K in keyof A | keyof B]: K extends keyof B
+    ? K extends keyof A
+      ? MergedAccessor<A[K], B[K]>
+      : B[K]
+    : K extends keyof A
+    ? A[K]
+    : never
+}
+
+type PartialAccessor<A> = A extends string
+  ? { path: A; missing: 'omit' }
+  : A extends readonly any[] | ((...args: any[]) => any)
+  ? A
+  : A extends { path: any }
+  ? { [K in keyof A | 'missing']: K extends 'missing' ? 'omit' : K extends keyof A ? A[K] : never }
+  : PartialSchema<A>
+
+/**
+ * The schema `SchemaDefinition.partial` produces from `S`.
+ */
+export type PartialSchema<S> = {
+  [K in keyof S]: PartialAccessor<S[K]>
+}
+
+type JoinPath<Base extends string, Rest extends string> = Base extends ''
+  ? Rest
+  : Rest extends ''
+  ? Base
+  : `${Base}.${Rest}`
+
+type RebasedPath<P, From extends string, To extends string> = P extends string
+  ? string extends P
+    ? P
+    : P extends `$root${string}` | `$parent${string}`
+    ? P
+    : From extends ''
+    ? JoinPath<To, P>
+    : P extends From
+    ? To
+    : P extends `${From}.${infer Rest}`
+    ? JoinPath<To, Rest>
+    : P
+  : P
+
+type RebasedPaths<P, From extends string, To extends string> = P extends readonly any[]
+  ? { -readonly [I in keyof P]: RebasedPath<P[I], From, To> }
+  : RebasedPath<P, From, To>
+
+/**
+ * An aggregator whose paths `rebase` moves, which becomes a selector of the whole source
+ * aggregating them in its first transform.
+ */
+type RebasedAggregator<A> = A extends readonly any[]
+  ? { path: string; transform: [(source: any) => Record<string, any>] }
+  : Omit<A, 'path' | 'transform'> & { path: string; transform: FieldTransform[] }
+
+type RebasedAccessor<A, From extends string, To extends string> = A extends string
+  ? RebasedPath<A, From, To>
+  : A extends (...args: any[]) => any
+  ? A
+  : A extends readonly any[]
+  ? RebasedPaths<A, From, To> extends A
+    ? A
+    : RebasedAggregator<A>
+  : A extends { path: readonly any[] }
+  ? RebasedPaths<A['path'], From, To> extends A['path']
+    ? A
+    : RebasedAggregator<A>
+  : A extends { path: any }
+  ? {
+      [K in keyof A]: K extends 'path' | 'fallbacks' ? RebasedPaths<A[K], From, To> : A[K]
+    }
+  : RebasedSchema<A, From, To>
+
+/**
+ * The schema `SchemaDefinition.rebase` produces from `S`, with every path under `From` moved
+ * under `To`. An empty `From` moves every path.
+ */
+export type RebasedSchema<S, From extends string, To extends string> = {
+  [K in keyof S]: RebasedAccessor<S[K], From, To>
+}
+
+export type FieldTransform<Source = any> = (
+  value: any,
+  context?: MappingContext<any, Source>
+) => any
+
+export type FieldFn<S = any, R = any, C = any> = (source: S, context: MappingContext<C, S>) => R
+
+/**
+ * What FieldFns, transforms and validators receive along with their value, to look beyond it:
+ *
+ * ```ts
+ * const price = (src: Product, { context }: MappingContext<{ rate: number }>) =>
+ *   src.price * context.rate
+ *
+ * hookup({ price }, product, { context: { rate: 1.1 } })
+ * ```
+ */
+export interface MappingContext<C = any, Source = any> {
+  /**
+   * The `context` option passed to `hookup`.
+   */
+  context: C
+  /**
+   * The source of the schema being resolved, which is the item for an `each` sub-schema.
+   */
+  source: Source
+  /**
+   * The source passed to `hookup`, or the item being mapped when it was given an array.
+   */
+  root: any
+  /**
+   * The source of the enclosing schema within an `each` sub-schema.
+   */
+  parent?: any
+  /**
+   * The index of the nearest enclosing array item being mapped.
+   */
+  index?: number
+  /**
+   * The keys leading to the field in the target, e.g. `['jobs', '0', 'title']`.
+   */
+  path: string[]
+  /**
+   * The fields of the enclosing schema resolved so far. Validators run once all of them are.
+   */
+  target: Record<string, any>
+}
 
 export type FieldAggregator<T extends unknown = unknown> = T extends object
   ? (keyof T)[] | string[]
@@ -48,8 +476,316 @@ export type FieldAggregator<T extends unknown = unknown> = T extends object
 
 export interface FieldSelector<Source extends CollectionItem = CollectionItem> {
   path: FieldPath<Source> | FieldAggregator<Source>
-  validators?: ValidatorFn | ValidatorFn[]
-  transform?: (value: any, source?: Source) => any
+  /**
+   * Validators of the value, either as functions or as references to validators registered with
+   * `Validators.register`: `['required', ['maxLength', 50], 'companyEmail']`.
+   */
+  validators?: ValidatorFn | string | ValidatorLike[]
+  /**
+   * Validators that resolve asynchronously. These are only run by `hookupAsync`.
+   */
+  asyncValidators?: AsyncValidatorFn | string | AsyncValidatorLike[]
+  /**
+   * Transforms the value read from `path`, receiving the `MappingContext` as its second argument.
+   * A list of transforms is applied in order, each receiving the value returned by the previous
+   * one.
+   */
+  transform?: FieldTransform<Source> | FieldTransform<Source>[]
+  /**
+   * Coerces the value read from `path` to this type before `each`, `transform` and the
+   * validators are applied. A value that can't be coerced is kept as it is and fails validation
+   * with a `type` error: `{ type: { expected: 'number', actual: 'abc' } }`.
+   */
+  type?: FieldType
+  /**
+   * The value used when neither `path` nor any of the `fallbacks` can be resolved.
+   */
+  default?: any
+  /**
+   * Paths that are tried in order when `path` can't be resolved.
+   */
+  fallbacks?: FieldPath<Source>[]
+  /**
+   * Overrides the `missing` option of `hookup` for this field.
+   */
+  missing?: MissingPathPolicy
+  /**
+   * A sub-schema applied to every item of the array found at `path`, with the item as its source.
+   * The enclosing source and the root source remain reachable through the `$parent` and `$root`
+   * path prefixes.
+   */
+  each?: Schema<CollectionItem, any>
+  /**
+   * Replaces the value read from `path` with the items of a dataset it references. See
+   * `FieldJoin`.
+   */
+  join?: FieldJoin
+  /**
+   * Only maps the items of an `each` schema that pass this predicate.
+   */
+  filter?: (item: any, index: number, items: any[]) => boolean
+  /**
+   * Sorts the items of an `each` schema, either with a comparator or by the value at a path.
+   * Prefix the path with `-` to sort in descending order.
+   */
+  sort?: string | ((a: any, b: any) => number)
+  /**
+   * The maximum number of items an `each` schema maps, applied after `filter` and `sort`.
+   */
+  limit?: number
+  /**
+   * Messages that `formatErrors` uses for the errors of this field instead of those of the
+   * locale, by error key: `{ min: 'Must be {min} or older' }`.
+   */
+  messages?: MessageCatalog
+}
+
+/**
+ * Looks up the value read by a `FieldSelector` in one of the `datasets` passed to `hookup`:
+ *
+ * ```ts
+ * const order = { customer: { path: 'customerId', join: { from: 'customers', on: 'id' } } }
+ *
+ * hookup(order, source, { datasets: { customers } })
+ * ```
+ *
+ * A list of references is replaced by the list of items they reference.
+ */
+export interface FieldJoin {
+  /**
+   * The name of the dataset.
+   */
+  from: string
+  /**
+   * The path of the items of the dataset that the reference is matched against.
+   */
+  on: string
+  /**
+   * A schema that every matched item is mapped with, using the item as the source and the
+   * enclosing source as the `$parent`.
+   */
+  schema?: Schema<CollectionItem, any>
+  /**
+   * Joins every item that matches rather than the first one, producing a list. Defaults to false.
+   */
+  many?: boolean
+  /**
+   * What happens when no item matches a reference, as for missing paths. A list of references
+   * leaves out the references that don't match under `'omit'`. Defaults to `'undefined'`.
+   */
+  missing?: MissingPathPolicy
+}
+
+/**
+ * The types a `FieldSelector` can coerce its value to:
+ *  - `'string'`: dates become ISO strings, objects and arrays can't be coerced
+ *  - `'number'`, `'integer'`: numeric strings are parsed
+ *  - `'boolean'`: `'true'`, `'false'`, `'1'`, `'0'` and the numbers 1 and 0
+ *  - `'date'`: ISO strings and timestamps
+ *  - `'array'`: values that aren't arrays are wrapped in one
+ */
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'array'
+
+interface FieldTypes {
+  string: string
+  number: number
+  integer: number
+  boolean: boolean
+  date: Date
+  array: any[]
+}
+
+/**
+ * What happens to a field whose path can't be resolved in the source:
+ *  - `'undefined'`: the field is set to undefined
+ *  - `'null'`: the field is set to null
+ *  - `'omit'`: the field is left out of the target
+ *  - `'throw'`: a `MissingPathError` is thrown
+ */
+export type MissingPathPolicy = 'undefined' | 'null' | 'omit' | 'throw'
+
+export interface HookupOptions {
+  /**
+   * `'inline'` (default) writes failed validations in place of the field's value, while
+   * `'result'` returns a `MappingResult` that keeps the mapped data and its errors apart.
+   */
+  mode?: 'inline' | 'result'
+  /**
+   * Whether a field that fails validation in `'result'` mode keeps the value that failed or is
+   * left out of the mapped data. Defaults to `'keep'`.
+   */
+  invalid?: 'keep' | 'omit'
+  /**
+   * What happens to fields whose path can't be resolved in the source. Defaults to
+   * `'undefined'`.
+   */
+  missing?: MissingPathPolicy
+  /**
+   * Anything FieldFns, transforms and validators need beyond the source, such as a locale or a
+   * lookup table. They receive it as `context` of their `MappingContext`.
+   */
+  context?: unknown
+  /**
+   * Named collections that `join` selectors look items up in.
+   */
+  datasets?: Record<string, object[]>
+  /**
+   * Returns the items mapped from an array source keyed by this path of the mapped item, or by
+   * the key this function returns. Later items replace earlier ones with the same key.
+   */
+  keyBy?: CollectionKey
+  /**
+   * Returns the items mapped from an array source grouped by this path of the mapped item, or by
+   * the key this function returns.
+   */
+  groupBy?: CollectionKey
+  /**
+   * Reduces the items mapped from an array source, or every group of them along with `groupBy`,
+   * to these aggregate fields:
+   *
+   * ```ts
+   * hookup(schema, rows, { groupBy: 'region', aggregate: { total: Aggregates.sum('amount') } })
+   * ```
+   */
+  aggregate?: Record<string, AggregateFn>
+  /**
+   * Flattens every target into an object keyed by the paths of its leaves, e.g.
+   * `{ 'address.city': 'Paris' }`. See `flatten`.
+   */
+  flatten?: boolean | FlattenOptions
+  /**
+   * Expands the keys of every target that are paths into nested objects, so that a schema key
+   * such as `'address.city'` produces `{ address: { city } }`. See `unflatten`.
+   */
+  unflatten?: boolean | FlattenOptions
+}
+
+export interface CsvOptions {
+  /**
+   * The character between fields. Defaults to `','`.
+   */
+  delimiter?: string
+  /**
+   * Whether the first row holds the column names, or the column names themselves. Without them
+   * records are keyed by column index. Defaults to true.
+   */
+  headers?: boolean | string[]
+}
+
+export interface CsvWriteOptions {
+  /**
+   * The character between fields. Defaults to `','`.
+   */
+  delimiter?: string
+  /**
+   * The columns written, as paths of the rows. Defaults to the keys of `schema` when given, or
+   * else to the keys of the rows in the order they first appear. Nested objects contribute one
+   * column per key, e.g. `contact.email`.
+   */
+  columns?: string[]
+  /**
+   * The schema the rows were mapped with, whose keys give the order of the columns.
+   */
+  schema?: object
+  /**
+   * Whether to write a header row. Defaults to true.
+   */
+  headers?: boolean
+  /**
+   * The line terminator. Defaults to `'\r\n'` as RFC 4180 prescribes.
+   */
+  newline?: string
+}
+
+/**
+ * The errors of a record of a CSV or NDJSON input, found while parsing or mapping it.
+ */
+export interface RecordError {
+  /**
+   * The line the record starts on, counting from 1.
+   */
+  line: number
+  errors: ValidationErrors | ErrorTree
+}
+
+/**
+ * The result of mapping the records of a CSV or NDJSON input. Records that can't be parsed or
+ * throw while being mapped are left out of `value`.
+ */
+export interface RecordsResult<T = any> {
+  value: T[]
+  errors: RecordError[]
+  valid: boolean
+}
+
+export interface FlattenOptions {
+  /**
+   * The string between the segments of a key. Defaults to `'.'`.
+   */
+  delimiter?: string
+  /**
+   * How array indices are written: `'dot'` (default) as segments like any other (`jobs.0.title`),
+   * `'bracket'` within brackets (`jobs[0].title`).
+   */
+  arrays?: 'dot' | 'bracket'
+  /**
+   * The maximum number of segments of a key. Deeper values are kept as they are.
+   */
+  maxDepth?: number
+}
+
+/**
+ * A path of a mapped item, or a function of the mapped item and its source returning its key.
+ */
+export type CollectionKey = string | ((item: any, source: any) => PropertyKey)
+
+/**
+ * Reduces a list of mapped items to a single value. See `Aggregates`.
+ */
+export type AggregateFn<R = any> = (items: any[]) => R
+
+type AggregateValues<A> = {
+  [K in keyof A]: A[K] extends AggregateFn<infer R> ? R : never
+}
+
+/**
+ * The shape of a target that `hookup` produces given its options.
+ */
+export type Reshaped<T, O> = O extends { flatten: true | FlattenOptions }
+  ? Record<string, any>
+  : O extends { unflatten: true | FlattenOptions }
+  ? Record<string, any>
+  : T
+
+/**
+ * The shape of the target that `hookup` produces from an array source, given its options.
+ */
+export type Collected<T, O> = O extends { aggregate: infer A }
+  ? O extends { groupBy: CollectionKey }
+    ? Record<string, AggregateValues<A>>
+    : AggregateValues<A>
+  : O extends { groupBy: CollectionKey }
+  ? Record<string, Reshaped<T, O>[]>
+  : O extends { keyBy: CollectionKey }
+  ? Record<string, Reshaped<T, O>>
+  : Reshaped<T, O>[]
+
+export interface HookupAsyncOptions extends HookupOptions {
+  /**
+   * The maximum number of items of an array source that are mapped at the same time.
+   * Defaults to `Infinity`.
+   */
+  concurrency?: number
+}
+
+export interface MappingResult<T = any> {
+  value: T
+  /**
+   * The errors of every field that failed validation, mirroring the shape of the schema. Array
+   * sources produce one entry per index, which is null for items that passed. Null when valid.
+   */
+  errors: ErrorTree | (ErrorTree | null)[] | null
+  valid: boolean
 }
 
 /**
@@ -60,22 +796,162 @@ export type ValidationErrors = {
   [key: string]: any
 }
 
+/**
+ * The message of a validation error. Strings interpolate the parameters of the error between
+ * braces, e.g. `'Must be at least {min}'` for `{ min: { min: 12, actual: 10 } }`, while functions
+ * receive them along with the path of the field.
+ */
+export type MessageTemplate = string | ((params: Record<string, any>, path: string) => string)
+
+/**
+ * Message templates by error key, such as those registered for a locale with `registerMessages`.
+ */
+export interface MessageCatalog {
+  [key: string]: MessageTemplate
+}
+
+export interface FormatErrorsOptions {
+  /**
+   * The locale whose catalog the messages are taken from, falling back to its language and then
+   * to English for the keys it lacks: `fr-CA`, `fr`, `en`. Defaults to `'en'`.
+   */
+  locale?: string
+  /**
+   * Messages taking precedence over those of the locale.
+   */
+  messages?: MessageCatalog
+  /**
+   * The schema the errors were produced with, whose fields may override messages.
+   */
+  schema?: object
+}
+
+/**
+ * A validation error as formatted by `formatErrors`. `path` locates the field in the target, e.g.
+ * `jobs[0].title`, and is empty for the errors of the root group.
+ */
+export interface FormattedError {
+  path: string
+  key: string
+  message: string
+}
+
 /**
  * @description
  * A function that receives an input and synchronously returns a map of
- * validation errors if present, otherwise null.
+ * validation errors if present, otherwise null. Validators also receive a `MappingContext`,
+ * whose `target` holds the sibling fields they may depend on.
  */
 export interface ValidatorFn<V = any> {
-  (input: FieldValue<V>): ValidationErrors | null
+  (input: FieldValue<V>, context?: MappingContext): ValidationErrors | null
 }
 
-export type GenericValidatorFn = (input: FieldValue) => any
+export type GenericValidatorFn = (
+  input: FieldValue,
+  context?: MappingContext,
+  signal?: AbortSignal
+) => any
 
 /**
  * @description
  * A function that receives an input and returns a Promise that emits
- * validation errors if present, otherwise null.
+ * validation errors if present, otherwise null. Fields pass a `signal` that is aborted when the
+ * value changes before the validation settles, e.g. to cancel a request.
  */
 export interface AsyncValidatorFn<V = any> {
-  (input: FieldValue<V>): Promise<ValidationErrors | null>
+  (
+    input: FieldValue<V>,
+    context?: MappingContext,
+    signal?: AbortSignal
+  ): Promise<ValidationErrors | null>
+}
+
+/**
+ * A reference to a function of a `Registry`: either its name, or a tuple of its name followed by
+ * the arguments it's called with (`['min', 12]`).
+ */
+export type NamedRef = string | [string, ...unknown[]]
+
+/**
+ * A validator, or a reference to one registered with `Validators.register`. A list of validators
+ * is always read as a list, so a reference with arguments must be listed: `[['maxLength', 50]]`.
+ */
+export type ValidatorLike = ValidatorFn | NamedRef
+
+export type AsyncValidatorLike = AsyncValidatorFn | NamedRef
+
+/**
+ * The kinds of functions a `Registry` holds.
+ */
+export type RegistryKind = 'transform' | 'validator' | 'asyncValidator'
+
+/**
+ * A transform that takes options as extra arguments after the value.
+ */
+export type TransformFn = (value: any, ...args: any[]) => any
+
+export type TransformFactory = (...args: any[]) => FieldTransform
+
+export type ValidatorFactory = (...args: any[]) => ValidatorFn
+
+export type AsyncValidatorFactory = (...args: any[]) => AsyncValidatorFn
+
+/**
+ * A `FieldSelector` that can be written as JSON, with its transform and validators referenced
+ * by name.
+ */
+export interface JsonFieldSelector {
+  path: string | string[]
+  validators?: string | NamedRef[]
+  asyncValidators?: string | NamedRef[]
+  transform?: string | NamedRef[]
+  type?: FieldType
+  default?: unknown
+  fallbacks?: string[]
+  missing?: MissingPathPolicy
+  each?: JsonSchema
+  join?: JsonFieldJoin
+  sort?: string
+  limit?: number
+  messages?: Record<string, string>
+}
+
+export interface JsonFieldJoin {
+  from: string
+  on: string
+  schema?: JsonSchema
+  many?: boolean
+  missing?: MissingPathPolicy
+}
+
+/**
+ * The JSON form of a `Schema`, read by `loadSchema` and produced by `serializeSchema`.
+ */
+export interface JsonSchema {
+  [key: string]: string | NamedRef[] | JsonFieldSelector | JsonSchema
+}
+
+/**
+ * A problem found while loading or serializing a schema. `key` locates it in the schema, e.g.
+ * `age.validators[0]`.
+ */
+export interface SchemaIssue {
+  key: string
+  message: string
+}
+
+/**
+ * A JSON Schema document, as produced by `toJSONSchema`.
+ */
+export interface JsonSchemaDocument {
+  [keyword: string]: unknown
+}
+
+/**
+ * The JSON Schema generated from a schema, along with the fields and validators that couldn't be
+ * translated into keywords.
+ */
+export interface JsonSchemaExport {
+  schema: JsonSchemaDocument
+  warnings: SchemaIssue[]
 }
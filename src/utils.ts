@@ -1,4 +1,5 @@
-import { Constructor, FieldValue } from './types'
+import { evaluatePath, toPropertyKeys } from './path'
+import { Constructor, FieldType, FieldValue } from './types'
 
 type TypeCheckerFn = (obj: unknown) => boolean
 
@@ -75,7 +76,7 @@ export const isInstanceOf = <I extends object = object, T = any>(
   return false
 }
 
-const coerceToString = (value: unknown): string => {
+export const coerceToString = (value: unknown): string => {
   const INFINITY = 1 / 0
 
   if (isNil(value)) {
@@ -106,58 +107,159 @@ export const coerceToStringOrNull = (value: any): string => {
 export const coerceToBoolean = (value: unknown): boolean =>
   isPresent(value) && `${value}` !== 'false'
 
+const BOOLEAN_STRINGS: Record<string, boolean> = { true: true, false: false, 1: true, 0: false }
+
+const toNumber = (value: unknown) =>
+  isNumber(value) ? value : isString(value) && (value as string).trim() ? Number(value) : NaN
+
+/**
+ * Converts `value` to `type`, reporting whether it could be. Null and undefined are left as
+ * they are.
+ */
+export const coerceToType = (value: unknown, type: FieldType): { coerced: boolean; value: any } => {
+  if (isNil(value)) return { coerced: true, value }
+
+  switch (type) {
+    case 'string':
+      if (isDate(value)) return { coerced: true, value: (value as Date).toISOString() }
+
+      return isPlainObject(value) || Array.isArray(value)
+        ? { coerced: false, value }
+        : { coerced: true, value: coerceToString(value) }
+
+    case 'number':
+    case 'integer':
+      const number = toNumber(value)
+      const coerced = type === 'number' ? !isNaN(number as number) : Number.isInteger(number)
+
+      return { coerced, value: coerced ? number : value }
+
+    case 'boolean':
+      if (isBoolean(value)) return { coerced: true, value }
+
+      const key = coerceToString(value).trim().toLowerCase()
+
+      return hasOwn(BOOLEAN_STRINGS, key)
+        ? { coerced: true, value: BOOLEAN_STRINGS[key] }
+        : { coerced: false, value }
+
+    case 'date':
+      const date = isDate(value)
+        ? (value as Date)
+        : isString(value) || isNumber(value)
+        ? new Date(value as string | number)
+        : null
+
+      return date && !isNaN(date.getTime())
+        ? { coerced: true, value: date }
+        : { coerced: false, value }
+
+    case 'array':
+      return { coerced: true, value: castArray(value) }
+
+    default:
+      return { coerced: false, value }
+  }
+}
+
 export const coerceToPromise = <T = unknown>(value: T | Promise<T>): Promise<T> => {
   return isPromise(value) ? (value as Promise<T>) : Promise.resolve(value)
 }
 
-export const get = <T extends object = object>(target: T, key: string) => {
-  try {
-    return key.split('.').reduce((obj, property) => obj[property], target)
-  } catch (err) {
-    // `target` is value
-    return target
+export const castArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value])
+
+/**
+ * Maps over `items` with an async iteratee, running at most `limit` iterations at a time.
+ * Results are returned in the same order as `items`.
+ */
+export const mapConcurrent = async <T, R>(
+  items: T[],
+  limit: number,
+  iteratee: (item: T, index: number) => R | Promise<R>
+): Promise<R[]> => {
+  if (!(limit >= 1)) {
+    throw new RangeError(`Expected concurrency to be a number greater than 0, got ${limit}.`)
   }
+
+  const results: R[] = new Array(items.length)
+  let cursor = 0
+
+  const worker = async () => {
+    while (cursor < items.length) {
+      const index = cursor++
+
+      results[index] = await iteratee(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+
+  return results
 }
 
+/**
+ * Reads the value at `path` (see `PathSegment` for the supported syntax), or undefined when the
+ * path doesn't exist. Paths containing wildcards or filters return the list of every value they
+ * match.
+ */
+export const get = <T extends object = object>(target: T, path: string) =>
+  evaluatePath(target, path)
+
+/**
+ * Property names that reach or replace the prototype of an object, which writing through would
+ * pollute every object.
+ */
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype']
+
+export const isUnsafeKey = (key: unknown) => UNSAFE_KEYS.includes(key as string)
+
+/**
+ * Sets an own property, including keys such as `__proto__` and `constructor` that assignment
+ * would resolve through the prototype.
+ */
+export const setKey = <T extends object>(o: T, key: string, value: unknown) =>
+  Object.defineProperty(o, key, { value, enumerable: true, writable: true, configurable: true })
+
+/**
+ * Writes `value` at `path`, creating any missing objects along the way. Numeric segments create
+ * arrays and negative indices count back from the end of an existing array. Throws for paths
+ * containing `__proto__`, `constructor` or `prototype`.
+ */
 export const set = <T extends object = object>(
   target: T,
   path: string | number | (string | number)[],
   value: unknown
-) => {
-  if (isNumber(path)) {
-    path = [path as number]
-  }
-  if (isEmpty(path)) {
+): T => {
+  const keys = isNumber(path)
+    ? [path as number]
+    : isString(path)
+    ? toPropertyKeys(path as string)
+    : (path as (string | number)[])
+
+  if (isEmpty(keys)) {
     return target
   }
 
-  function getKey(key: string | number) {
-    const intKey = parseInt(String(key), 10)
-    return intKey.toString() === key ? intKey : key
-  }
+  const unsafeKey = keys.find(isUnsafeKey)
 
-  if (isString(path)) {
-    return set(target, (path as string).split('.').map(getKey), value)
+  if (unsafeKey !== undefined) {
+    throw new TypeError(`Refusing to write the unsafe property "${unsafeKey}".`)
   }
 
-  const currentPath = path[0]
-  let currentValue = undefined
+  keys.reduce((obj, key, i) => {
+    const property =
+      typeof key === 'number' && key < 0 && Array.isArray(obj) ? obj.length + key : key
 
-  if ((isNumber(path) && Array.isArray(target)) || hasOwn(target, path)) {
-    currentValue = target[currentPath]
-  }
-  if ((path as string | (string | number)[]).length === 1) {
-    if (isUndefined(currentValue)) {
-      target[currentPath] = value
+    if (i === keys.length - 1) {
+      obj[property] = value
+    } else if (isPrimitive(obj[property]) || isUndefined(obj[property])) {
+      obj[property] = isNumber(keys[i + 1]) ? [] : {}
     }
-    return currentValue
-  }
-  if (isUndefined(currentValue)) {
-    // Assume an array
-    target[currentPath] = isNumber(path[1]) ? [] : {}
-  }
 
-  return set(target[currentPath], (path as string | (string | number)[]).slice(1), value)
+    return obj[property]
+  }, target)
+
+  return target
 }
 
 export function clone(o: unknown) {
@@ -189,10 +291,43 @@ export function clone(o: unknown) {
 export const getFieldValue = (input: FieldValue) =>
   isPlainObject(input) && 'value' in input ? input.value : input
 
+/**
+ * The keys of a schema holding the validators of the group of fields it describes, which
+ * receive the resolved group as their input.
+ */
+export const GROUP_VALIDATORS = '$validators'
+
+export const GROUP_ASYNC_VALIDATORS = '$asyncValidators'
+
+export const isGroupValidatorKey = (key: string) =>
+  key === GROUP_VALIDATORS || key === GROUP_ASYNC_VALIDATORS
+
+export const MISSING_PATH_POLICIES = ['undefined', 'null', 'omit', 'throw']
+
+export const FIELD_TYPES = ['string', 'number', 'integer', 'boolean', 'date', 'array']
+
+/**
+ * The options that make an object with a `path` a field selector rather than a nested schema,
+ * whatever their values, so that a misspelled `type` or `missing` is reported rather than read as
+ * a nested schema. These keys therefore can't sit next to `path` in a nested schema.
+ */
+const FIELD_SELECTOR_OPTIONS = [
+  'validators',
+  'asyncValidators',
+  'transform',
+  'type',
+  'default',
+  'fallbacks',
+  'missing',
+  'each',
+  'join',
+  'messages',
+]
+
 export const isFieldSelector = (value: unknown): boolean => {
   return (
     isPlainObject(value) &&
-    value.hasOwnProperty('path') &&
-    (value.hasOwnProperty('validators') || value.hasOwnProperty('transform'))
+    hasOwn(value, 'path') &&
+    FIELD_SELECTOR_OPTIONS.some((option) => hasOwn(value, option))
   )
 }
@@ -0,0 +1,100 @@
+import { hookup } from '.'
+import { Validators } from './validators'
+
+describe('Validators', () => {
+  it('Should validate formats', () => {
+    expect(Validators.email('miro@mediumwarmmail.com')).toBe(null)
+    expect(Validators.email('miro@')).toEqual({ email: true })
+    expect(Validators.url('https://example.com/path?q=1')).toBe(null)
+    expect(Validators.url('example.com')).toEqual({ url: true })
+    expect(Validators.uuid('123e4567-e89b-12d3-a456-426614174000')).toBe(null)
+    expect(Validators.uuid('123e4567')).toEqual({ uuid: true })
+    expect(Validators.pattern('[0-9]{5}')('11103')).toBe(null)
+    expect(Validators.pattern(/^a/i)('b')).toEqual({ pattern: { pattern: '/^a/i', actual: 'b' } })
+    expect(Validators.email('')).toBe(null)
+  })
+
+  it('Should validate numbers', () => {
+    expect(Validators.integer(12)).toBe(null)
+    expect(Validators.integer('12')).toBe(null)
+    expect(Validators.integer(12.5)).toEqual({ integer: { actual: 12.5 } })
+    expect(Validators.multipleOf(0.1)(0.3)).toBe(null)
+    expect(Validators.multipleOf(5)(12)).toEqual({ multipleof: { multipleOf: 5, actual: 12 } })
+  })
+
+  it('Should validate against lists of values', () => {
+    const sizes = ['S', 'M', 'L']
+
+    expect(Validators.oneOf(sizes)('M')).toBe(null)
+    expect(Validators.oneOf(sizes)('XL')).toEqual({ oneof: { oneOf: sizes, actual: 'XL' } })
+    expect(Validators.notOneOf(['admin'])('miro')).toBe(null)
+    expect(Validators.notOneOf(['admin'])('admin')).toEqual({
+      notoneof: { notOneOf: ['admin'], actual: 'admin' },
+    })
+  })
+
+  it('Should validate dates', () => {
+    const start = new Date(Date.UTC(2020, 0, 1))
+
+    expect(Validators.dateBefore(start)('2019-12-31')).toBe(null)
+    expect(Validators.dateBefore('2020-01-01')(start)).toEqual({
+      datebefore: { before: '2020-01-01', actual: start },
+    })
+    expect(Validators.dateAfter(start)(Date.UTC(2020, 0, 2))).toBe(null)
+    expect(Validators.dateBetween(start, '2020-12-31')(start)).toBe(null)
+    expect(Validators.dateBetween(start, '2020-12-31')('2021-01-01')).toEqual({
+      datebetween: { start, end: '2020-12-31', actual: '2021-01-01' },
+    })
+    expect(Validators.dateAfter(start)('soon')).toEqual({ date: { actual: 'soon' } })
+  })
+
+  it('Should compare fields and run custom predicates', () => {
+    const schema = {
+      password: 'password',
+      confirmation: { path: 'confirmation', validators: Validators.equalsPath('password') },
+      age: {
+        path: 'age',
+        validators: Validators.custom((age: number) => age % 2 === 0, 'even'),
+      },
+    }
+
+    expect(
+      hookup(schema, { password: 'secret', confirmation: 'secrte', age: 3 }, { mode: 'result' })
+        .errors
+    ).toEqual({ confirmation: { equalspath: { path: 'password' } }, age: { even: true } })
+    expect(
+      hookup(schema, { password: 'secret', confirmation: 'secret', age: 4 }, { mode: 'result' })
+        .valid
+    ).toBe(true)
+  })
+
+  it('Should reference the new validators by name', () => {
+    const schema = {
+      email: { path: 'email', validators: ['email', ['notOneOf', ['root@example.com']]] },
+      size: { path: 'size', validators: [['oneOf', ['S', 'M']]] },
+    }
+
+    expect(
+      hookup(schema, { email: 'root@example.com', size: 'XL' }, { mode: 'result' }).errors
+    ).toEqual({
+      email: { notoneof: { notOneOf: ['root@example.com'], actual: 'root@example.com' } },
+      size: { oneof: { oneOf: ['S', 'M'], actual: 'XL' } },
+    })
+  })
+
+  it('Should have async counterparts returning validators', async () => {
+    const taken = ['miro']
+    const available = Validators.async.custom(
+      async (username: string) => !taken.includes(username),
+      'available'
+    )
+
+    expect(typeof Validators.async.minLength(3)).toBe('function')
+    expect(await Validators.async.minLength(3)('ab')).toEqual({
+      minlength: { minLength: 3, actual: 2 },
+    })
+    expect(await Validators.async.required('')).toEqual({ required: true })
+    expect(await available('miro')).toEqual({ available: true })
+    expect(await available('ana')).toBe(null)
+  })
+})
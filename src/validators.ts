@@ -1,11 +1,28 @@
+import { isNamedRef, registry } from './registry'
 import {
+  AsyncValidatorFactory,
   AsyncValidatorFn,
+  AsyncValidatorLike,
   FieldValue,
   GenericValidatorFn,
+  MappingContext,
+  NamedRef,
   ValidationErrors,
+  ValidatorFactory,
   ValidatorFn,
+  ValidatorLike,
 } from './types'
-import { coerceToPromise, getFieldValue, isEmpty, isNumber, isPresent } from './utils'
+import {
+  castArray,
+  coerceToPromise,
+  get,
+  getFieldValue,
+  isDate,
+  isEmpty,
+  isNumber,
+  isPresent,
+  isString,
+} from './utils'
 
 /**
  * Validator & Validators are adapted from Angular's Forms package.
@@ -34,14 +51,88 @@ export interface AsyncValidator extends Validator {
   validate(control: FieldValue): Promise<ValidationErrors | null> | Promise<ValidationErrors | null>
 }
 
+/**
+ * The references the built-in validators were created from, e.g. `['min', 12]`, so that they can
+ * be described in other formats such as JSON Schema.
+ */
+const validatorRefs = new WeakMap<GenericValidatorFn, NamedRef>()
+
+function withRef<V extends GenericValidatorFn>(validator: V, ref: NamedRef): V {
+  validatorRefs.set(validator, ref)
+
+  return validator
+}
+
+/**
+ * Wraps a synchronous validator so that its errors resolve asynchronously.
+ */
+function toAsyncValidator(validator: ValidatorFn): AsyncValidatorFn {
+  return async (input: FieldValue, context?: MappingContext) => validator(input, context)
+}
+
+function resolveValidators<V>(
+  validators: V | string | (V | NamedRef)[] | null,
+  resolve: (ref: NamedRef) => V
+): V[] {
+  if (!validators) return []
+
+  return castArray(validators).map((validator) => {
+    if (typeof validator === 'function' || validator == null) return validator as V
+
+    if (!isNamedRef(validator)) {
+      throw new TypeError(
+        `Expected a validator, a name or a [name, ...args] tuple but got ${JSON.stringify(
+          validator
+        )}.`
+      )
+    }
+
+    return resolve(validator)
+  })
+}
+
+type DateLike = Date | string | number
+
+const EMAIL_REGEXP =
+  /^(?=.{1,254}$)(?=.{1,64}@)[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+)*@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/
+const URL_REGEXP = /^[a-z][a-z\d+.-]*:\/\/[^\s/?#]+[^\s]*$/i
+const UUID_REGEXP = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
 export class Validators {
-  static async: Record<string, AsyncValidatorFn | Promise<ValidationErrors | null>> = {
-    min: async (min: number) => Promise.resolve(minValidator(min)),
-    max: async (max: number) => Promise.resolve(maxValidator(max)),
-    minLength: async (minLength: number) => Promise.resolve(minLengthValidator(minLength)),
-    maxLength: async (maxLength: number) => Promise.resolve(maxLengthValidator(maxLength)),
-    required: async (required: boolean) => Promise.resolve(requiredValidator(required)),
-    requiredTrue: async (required: boolean) => Promise.resolve(requiredTrueValidator(required)),
+  /**
+   * Async counterparts of the built-in validators, for use among `asyncValidators`. The
+   * predicate of `custom` may resolve asynchronously, e.g. to look the value up on a server.
+   */
+  static async = {
+    min: (min: number) => toAsyncValidator(minValidator(min)),
+    max: (max: number) => toAsyncValidator(maxValidator(max)),
+    minLength: (minLength: number) => toAsyncValidator(minLengthValidator(minLength)),
+    maxLength: (maxLength: number) => toAsyncValidator(maxLengthValidator(maxLength)),
+    minItems: (minItems: number) => toAsyncValidator(minItemsValidator(minItems)),
+    maxItems: (maxItems: number) => toAsyncValidator(maxItemsValidator(maxItems)),
+    uniqueItems: (path?: string) => toAsyncValidator(uniqueItemsValidator(path)),
+    required: toAsyncValidator(requiredValidator),
+    requiredTrue: toAsyncValidator(requiredTrueValidator),
+    email: toAsyncValidator(emailValidator),
+    url: toAsyncValidator(urlValidator),
+    uuid: toAsyncValidator(uuidValidator),
+    integer: toAsyncValidator(integerValidator),
+    pattern: (pattern: string | RegExp) => toAsyncValidator(patternValidator(pattern)),
+    multipleOf: (multipleOf: number) => toAsyncValidator(multipleOfValidator(multipleOf)),
+    oneOf: (values: unknown[]) => toAsyncValidator(oneOfValidator(values)),
+    notOneOf: (values: unknown[]) => toAsyncValidator(notOneOfValidator(values)),
+    dateBefore: (date: DateLike) => toAsyncValidator(dateBeforeValidator(date)),
+    dateAfter: (date: DateLike) => toAsyncValidator(dateAfterValidator(date)),
+    dateBetween: (start: DateLike, end: DateLike) =>
+      toAsyncValidator(dateBetweenValidator(start, end)),
+    equalsPath: (path: string) => toAsyncValidator(equalsPathValidator(path)),
+    custom:
+      (
+        predicate: (value: any, context?: MappingContext) => boolean | Promise<boolean>,
+        errorKey: string
+      ): AsyncValidatorFn =>
+      async (input: FieldValue, context?: MappingContext) =>
+        (await predicate(getFieldValue(input), context)) ? null : { [errorKey]: true },
   }
 
   static min(min: number): ValidatorFn {
@@ -60,18 +151,198 @@ export class Validators {
     return maxLengthValidator(maxLength)
   }
 
-  static required(required: boolean): ValidationErrors | null {
-    return requiredValidator(required)
+  /**
+   * Requires a list of at least `minItems` items. Unlike `minLength`, an empty list fails.
+   */
+  static minItems(minItems: number): ValidatorFn {
+    return minItemsValidator(minItems)
   }
 
-  static requiredTrue(required: number): ValidationErrors | null {
-    return requiredTrueValidator(required)
+  static maxItems(maxItems: number): ValidatorFn {
+    return maxItemsValidator(maxItems)
+  }
+
+  /**
+   * Requires the items of a list to be distinct, comparing them by the value at `path` when
+   * given. Items are compared by their JSON form, so that equal objects are duplicates.
+   */
+  static uniqueItems(path?: string): ValidatorFn {
+    return uniqueItemsValidator(path)
+  }
+
+  static required(input: FieldValue): ValidationErrors | null {
+    return requiredValidator(input)
+  }
+
+  static requiredTrue(input: FieldValue): ValidationErrors | null {
+    return requiredTrueValidator(input)
+  }
+
+  static email(input: FieldValue): ValidationErrors | null {
+    return emailValidator(input)
+  }
+
+  /**
+   * Requires an absolute URL, such as `https://example.com/path`.
+   */
+  static url(input: FieldValue): ValidationErrors | null {
+    return urlValidator(input)
+  }
+
+  static uuid(input: FieldValue): ValidationErrors | null {
+    return uuidValidator(input)
+  }
+
+  /**
+   * Requires an integer, or a string parsing to one.
+   */
+  static integer(input: FieldValue): ValidationErrors | null {
+    return integerValidator(input)
+  }
+
+  /**
+   * Requires the input to match `pattern`. A string pattern must match the whole input.
+   */
+  static pattern(pattern: string | RegExp): ValidatorFn {
+    return patternValidator(pattern)
+  }
+
+  static multipleOf(multipleOf: number): ValidatorFn {
+    return multipleOfValidator(multipleOf)
+  }
+
+  static oneOf(values: unknown[]): ValidatorFn {
+    return oneOfValidator(values)
+  }
+
+  static notOneOf(values: unknown[]): ValidatorFn {
+    return notOneOfValidator(values)
+  }
+
+  /**
+   * Requires a date strictly before `date`. Dates may be given as `Date`s, ISO strings or
+   * timestamps; an input that isn't a valid date fails with a `date` error.
+   */
+  static dateBefore(date: DateLike): ValidatorFn {
+    return dateBeforeValidator(date)
+  }
+
+  /**
+   * Requires a date strictly after `date`, as in `dateBefore`.
+   */
+  static dateAfter(date: DateLike): ValidatorFn {
+    return dateAfterValidator(date)
+  }
+
+  /**
+   * Requires a date between `start` and `end`, both included, as in `dateBefore`.
+   */
+  static dateBetween(start: DateLike, end: DateLike): ValidatorFn {
+    return dateBetweenValidator(start, end)
+  }
+
+  /**
+   * Requires the input to equal the sibling field at `path`, e.g. a password confirmation.
+   */
+  static equalsPath(path: string): ValidatorFn {
+    return equalsPathValidator(path)
+  }
+
+  /**
+   * Creates a validator failing with `{ [errorKey]: true }` when `predicate` returns false for
+   * the value.
+   */
+  static custom(
+    predicate: (value: any, context?: MappingContext) => boolean,
+    errorKey: string
+  ): ValidatorFn {
+    return customValidator(predicate, errorKey)
   }
 
   static null(_input: any): ValidationErrors | null {
     return nullValidator(_input)
   }
 
+  /**
+   * Requires the input when the sibling field at `path` meets `condition`, which is either a
+   * predicate of the sibling's value or a value it must equal. Without a condition the input is
+   * required when the sibling isn't empty.
+   */
+  static requiredIf(path: string, condition?: unknown): ValidatorFn {
+    return requiredIfValidator(path, condition)
+  }
+
+  /**
+   * Requires the input unless the sibling field at `path` meets `condition`, as in `requiredIf`.
+   */
+  static requiredUnless(path: string, condition?: unknown): ValidatorFn {
+    return requiredUnlessValidator(path, condition)
+  }
+
+  /**
+   * Registers a validator that schemas can reference by name, e.g. `'companyEmail'`.
+   */
+  static register(name: string, validator: ValidatorFn): typeof Validators {
+    registry.registerValidator(name, () => validator)
+
+    return Validators
+  }
+
+  /**
+   * Registers a validator factory, called with the arguments of a reference to create the
+   * validator: `['maxLength', 50]` is `factory(50)`.
+   */
+  static registerFactory(name: string, factory: ValidatorFactory): typeof Validators {
+    registry.registerValidator(name, factory)
+
+    return Validators
+  }
+
+  static registerAsync(name: string, validator: AsyncValidatorFn): typeof Validators {
+    registry.registerAsyncValidator(name, () => validator)
+
+    return Validators
+  }
+
+  static registerAsyncFactory(name: string, factory: AsyncValidatorFactory): typeof Validators {
+    registry.registerAsyncValidator(name, factory)
+
+    return Validators
+  }
+
+  /**
+   * Creates the validator a reference points to, throwing an error listing the registered
+   * validators when its name is unknown.
+   */
+  static resolve(ref: NamedRef): ValidatorFn {
+    return registry.resolve('validator', ref)
+  }
+
+  static resolveAsync(ref: NamedRef): AsyncValidatorFn {
+    return registry.resolve('asyncValidator', ref)
+  }
+
+  /**
+   * Resolves the references among the validators of a schema, keeping functions as they are.
+   */
+  static resolveAll(validators: ValidatorFn | string | ValidatorLike[] | null): ValidatorFn[] {
+    return resolveValidators(validators, Validators.resolve)
+  }
+
+  static resolveAllAsync(
+    validators: AsyncValidatorFn | string | AsyncValidatorLike[] | null
+  ): AsyncValidatorFn[] {
+    return resolveValidators(validators, Validators.resolveAsync)
+  }
+
+  /**
+   * The reference a built-in validator was created from, e.g. `['min', 12]` for
+   * `Validators.min(12)`, or undefined for any other validator.
+   */
+  static refOf(validator: GenericValidatorFn): NamedRef | undefined {
+    return validatorRefs.get(validator)
+  }
+
   static mergeErrors(arrayOfErrors: (ValidationErrors | null)[]): ValidationErrors | null {
     let res: { [key: string]: any } = {}
 
@@ -99,23 +370,25 @@ export class Validators {
 
   static mergeValidators(
     ...validators: ValidatorFn[]
-  ): (value: FieldValue) => ValidationErrors[] | null {
+  ): (value: FieldValue, context?: MappingContext) => ValidationErrors[] | null {
     const validatorArr = validators.filter((v) => v !== null) as ValidatorFn[]
 
     if (!validatorArr.length) return null
 
-    return (value: FieldValue) =>
+    return (value: FieldValue, context?: MappingContext) =>
       validatorArr.reduce((errors, validator: ValidatorFn) => {
-        errors.push(validator(value))
+        errors.push(validator(value, context))
         return errors
       }, [] as ValidationErrors[])
   }
 
   static executeValidators<V extends GenericValidatorFn>(
     input: FieldValue,
-    validators: V[]
+    validators: V[],
+    context?: MappingContext,
+    signal?: AbortSignal
   ): ReturnType<V>[] {
-    return validators.map((validator) => validator(input))
+    return validators.map((validator) => validator(input, context, signal))
   }
 
   static isValidatorFn<V>(validator: V | Validator | AsyncValidator): validator is V {
@@ -146,9 +419,9 @@ export class Validators {
     const presentValidators: ValidatorFn[] = validators.filter(isPresent) as any
     if (presentValidators.length == 0) return null
 
-    return function (input: FieldValue) {
+    return function (input: FieldValue, context?: MappingContext) {
       return Validators.mergeErrors(
-        Validators.executeValidators<ValidatorFn>(input, presentValidators)
+        Validators.executeValidators<ValidatorFn>(input, presentValidators, context)
       )
     }
   }
@@ -172,10 +445,12 @@ export class Validators {
     const presentValidators: AsyncValidatorFn[] = validators.filter(isPresent) as any
     if (presentValidators.length == 0) return null
 
-    return async function (input: FieldValue) {
+    return async function (input: FieldValue, context?: MappingContext, signal?: AbortSignal) {
       const observables = Validators.executeValidators<AsyncValidatorFn>(
         input,
-        presentValidators
+        presentValidators,
+        context,
+        signal
       ).map(coerceToPromise)
       return Promise.all(observables).then(Validators.mergeErrors)
     }
@@ -186,34 +461,40 @@ export class Validators {
  * Validator that requires the input's value to be more than or equal to the provided number.
  */
 export function minValidator(min: number): ValidatorFn {
-  return (input: FieldValue) => {
-    const inputValue = getFieldValue(input)
-    if (isEmpty(inputValue) || isEmpty(min)) {
-      return null // don't validate empty values to allow optional controls
-    }
-    const value = isNumber(inputValue)
-      ? parseFloat(String(inputValue))
-      : (inputValue as string).length
-    // Controls with NaN values after parsing should be treated as not having a
-    // minimum, per the HTML forms spec: https://www.w3.org/TR/html5/forms.html#attr-input-min
-    return !isNaN(value) && value < min ? { min: { min: min, actual: inputValue } } : null
-  }
+  return withRef(
+    (input: FieldValue) => {
+      const inputValue = getFieldValue(input)
+      if (isEmpty(inputValue) || isEmpty(min)) {
+        return null // don't validate empty values to allow optional controls
+      }
+      const value = isNumber(inputValue)
+        ? parseFloat(String(inputValue))
+        : (inputValue as string).length
+      // Controls with NaN values after parsing should be treated as not having a
+      // minimum, per the HTML forms spec: https://www.w3.org/TR/html5/forms.html#attr-input-min
+      return !isNaN(value) && value < min ? { min: { min: min, actual: inputValue } } : null
+    },
+    ['min', min]
+  )
 }
 
 /**
  * Validator that requires the input's value to be less than or equal to the provided number.
  */
 export function maxValidator(max: number): ValidatorFn {
-  return (input: FieldValue): ValidationErrors | null => {
-    const inputValue = getFieldValue(input)
-    if (isEmpty(inputValue) || isEmpty(max)) {
-      return null // don't validate empty values to allow optional controls
-    }
-    const value = parseFloat(inputValue)
-    // Controls with NaN values after parsing should be treated as not having a
-    // maximum, per the HTML forms spec: https://www.w3.org/TR/html5/forms.html#attr-input-max
-    return !isNaN(value) && value > max ? { max: { max: max, actual: inputValue } } : null
-  }
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+      if (isEmpty(inputValue) || isEmpty(max)) {
+        return null // don't validate empty values to allow optional controls
+      }
+      const value = parseFloat(inputValue)
+      // Controls with NaN values after parsing should be treated as not having a
+      // maximum, per the HTML forms spec: https://www.w3.org/TR/html5/forms.html#attr-input-max
+      return !isNaN(value) && value > max ? { max: { max: max, actual: inputValue } } : null
+    },
+    ['max', max]
+  )
 }
 
 /**
@@ -223,6 +504,42 @@ export function requiredValidator(input: FieldValue): ValidationErrors | null {
   return isEmpty(getFieldValue(input)) ? { required: true } : null
 }
 
+/**
+ * Whether the value of the sibling field at `path` meets `condition`: a predicate, a value to
+ * equal, or, when omitted, being non-empty.
+ */
+function meetsCondition(context: MappingContext, path: string, condition: unknown) {
+  const value = get(context.target, path)
+
+  if (condition === undefined) return !isEmpty(value)
+
+  return typeof condition === 'function' ? !!condition(value) : value === condition
+}
+
+/**
+ * Validator that requires the input have a non-empty value when a sibling field meets a
+ * condition. See `Validators.requiredIf` for additional information.
+ */
+export function requiredIfValidator(path: string, condition?: unknown): ValidatorFn {
+  return withRef(
+    (input: FieldValue, context?: MappingContext): ValidationErrors | null =>
+      context && meetsCondition(context, path, condition) ? requiredValidator(input) : null,
+    ['requiredIf', path, condition]
+  )
+}
+
+/**
+ * Validator that requires the input have a non-empty value unless a sibling field meets a
+ * condition. See `Validators.requiredUnless` for additional information.
+ */
+export function requiredUnlessValidator(path: string, condition?: unknown): ValidatorFn {
+  return withRef(
+    (input: FieldValue, context?: MappingContext): ValidationErrors | null =>
+      context && !meetsCondition(context, path, condition) ? requiredValidator(input) : null,
+    ['requiredUnless', path, condition]
+  )
+}
+
 /**
  * Validator that requires the input's value be true. This validator is commonly
  * used for required checkboxes.
@@ -236,16 +553,19 @@ export function requiredTrueValidator(input: FieldValue): ValidationErrors | nul
  * to the provided minimum length. See `Validators.minLength` for additional information.
  */
 export function minLengthValidator(minLength: number): ValidatorFn {
-  return (input: FieldValue): ValidationErrors | null => {
-    const inputValue = getFieldValue(input)
-    if (isEmpty(inputValue)) {
-      return null
-    }
-
-    return inputValue.length < minLength
-      ? { minlength: { minLength: minLength, actual: inputValue.length } }
-      : null
-  }
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+      if (isEmpty(inputValue)) {
+        return null
+      }
+
+      return inputValue.length < minLength
+        ? { minlength: { minLength: minLength, actual: inputValue.length } }
+        : null
+    },
+    ['minLength', minLength]
+  )
 }
 
 /**
@@ -253,12 +573,74 @@ export function minLengthValidator(minLength: number): ValidatorFn {
  * to the provided maximum length. See `Validators.maxLength` for additional information.
  */
 export function maxLengthValidator(maxLength: number): ValidatorFn {
-  return (input: FieldValue): ValidationErrors | null => {
-    const inputValue = getFieldValue(input)
-    return !isEmpty(inputValue) && inputValue.length > maxLength
-      ? { maxlength: { maxLength: maxLength, actual: inputValue.length } }
-      : null
-  }
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+      return !isEmpty(inputValue) && inputValue.length > maxLength
+        ? { maxlength: { maxLength: maxLength, actual: inputValue.length } }
+        : null
+    },
+    ['maxLength', maxLength]
+  )
+}
+
+/**
+ * Validator that requires a list of at least `minItems` items. See `Validators.minItems`.
+ */
+export function minItemsValidator(minItems: number): ValidatorFn {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+
+      return Array.isArray(inputValue) && inputValue.length < minItems
+        ? { minitems: { minItems, actual: inputValue.length } }
+        : null
+    },
+    ['minItems', minItems]
+  )
+}
+
+/**
+ * Validator that requires a list of at most `maxItems` items.
+ */
+export function maxItemsValidator(maxItems: number): ValidatorFn {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+
+      return Array.isArray(inputValue) && inputValue.length > maxItems
+        ? { maxitems: { maxItems, actual: inputValue.length } }
+        : null
+    },
+    ['maxItems', maxItems]
+  )
+}
+
+/**
+ * Validator that requires the items of a list to be distinct, reporting the indexes of the items
+ * repeating an earlier one. See `Validators.uniqueItems`.
+ */
+export function uniqueItemsValidator(path?: string): ValidatorFn {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+
+      if (!Array.isArray(inputValue)) return null
+
+      const seen = new Set<string>()
+      const duplicates = inputValue.reduce<number[]>((duplicates, item, i) => {
+        const key = JSON.stringify(path ? get(item, path) : item)
+
+        if (seen.has(key)) duplicates.push(i)
+        seen.add(key)
+
+        return duplicates
+      }, [])
+
+      return duplicates.length ? { uniqueitems: { duplicates } } : null
+    },
+    path ? ['uniqueItems', path] : 'uniqueItems'
+  )
 }
 
 /**
@@ -289,12 +671,208 @@ export function patternValidator(pattern: string | RegExp): ValidatorFn {
     regexStr = pattern.toString()
     regex = pattern
   }
-  return (input: FieldValue): ValidationErrors | null => {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+      if (isEmpty(inputValue)) {
+        return null // don't validate empty values to allow optional controls
+      }
+      const value: string = inputValue
+      return regex.test(value) ? null : { pattern: { pattern: regexStr, actual: value } }
+    },
+    ['pattern', pattern]
+  )
+}
+
+/**
+ * Validator that requires the input's value to be an email address.
+ */
+export function emailValidator(input: FieldValue): ValidationErrors | null {
+  const inputValue = getFieldValue(input)
+
+  return isEmpty(inputValue) || EMAIL_REGEXP.test(inputValue) ? null : { email: true }
+}
+
+/**
+ * Validator that requires the input's value to be an absolute URL.
+ */
+export function urlValidator(input: FieldValue): ValidationErrors | null {
+  const inputValue = getFieldValue(input)
+
+  return isEmpty(inputValue) || URL_REGEXP.test(inputValue) ? null : { url: true }
+}
+
+/**
+ * Validator that requires the input's value to be a UUID, in any version.
+ */
+export function uuidValidator(input: FieldValue): ValidationErrors | null {
+  const inputValue = getFieldValue(input)
+
+  return isEmpty(inputValue) || UUID_REGEXP.test(inputValue) ? null : { uuid: true }
+}
+
+/**
+ * Validator that requires the input's value to be an integer. See `Validators.integer`.
+ */
+export function integerValidator(input: FieldValue): ValidationErrors | null {
+  const inputValue = getFieldValue(input)
+
+  if (isEmpty(inputValue)) return null
+
+  const value = typeof inputValue === 'string' ? Number(inputValue) : inputValue
+
+  return Number.isInteger(value) ? null : { integer: { actual: inputValue } }
+}
+
+/**
+ * Validator that requires the input's value to be a multiple of the provided number.
+ */
+export function multipleOfValidator(multipleOf: number): ValidatorFn {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+      if (isEmpty(inputValue)) {
+        return null
+      }
+      const value = parseFloat(inputValue)
+      const quotient = value / multipleOf
+      // Tolerates the rounding errors of decimal multiples, such as 0.3 / 0.1
+      return !isNaN(value) && Math.abs(quotient - Math.round(quotient)) > 1e-9
+        ? { multipleof: { multipleOf, actual: inputValue } }
+        : null
+    },
+    ['multipleOf', multipleOf]
+  )
+}
+
+/**
+ * Validator that requires the input's value to be one of the provided values.
+ */
+export function oneOfValidator(values: unknown[]): ValidatorFn {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+
+      return isEmpty(inputValue) || values.includes(inputValue)
+        ? null
+        : { oneof: { oneOf: values, actual: inputValue } }
+    },
+    ['oneOf', values]
+  )
+}
+
+/**
+ * Validator that requires the input's value to be none of the provided values.
+ */
+export function notOneOfValidator(values: unknown[]): ValidatorFn {
+  return withRef(
+    (input: FieldValue): ValidationErrors | null => {
+      const inputValue = getFieldValue(input)
+
+      return !isEmpty(inputValue) && values.includes(inputValue)
+        ? { notoneof: { notOneOf: values, actual: inputValue } }
+        : null
+    },
+    ['notOneOf', values]
+  )
+}
+
+const toTime = (date: unknown) =>
+  isDate(date) || isString(date) || isNumber(date) ? new Date(date as DateLike).getTime() : NaN
+
+/**
+ * Creates a validator of dates, failing with a `date` error for inputs that aren't valid dates
+ * and with `errors(time)` for those that are.
+ */
+function dateValidator(
+  errors: (time: number, actual: unknown) => ValidationErrors | null,
+  ref: NamedRef
+): ValidatorFn {
+  return withRef((input: FieldValue): ValidationErrors | null => {
     const inputValue = getFieldValue(input)
-    if (isEmpty(inputValue)) {
-      return null // don't validate empty values to allow optional controls
+    // Dates have no own keys, so isEmpty takes them for empty objects
+    if (!isDate(inputValue) && isEmpty(inputValue)) {
+      return null
     }
-    const value: string = inputValue
-    return regex.test(value) ? null : { pattern: { pattern: regexStr, actual: value } }
-  }
+    const time = toTime(inputValue)
+
+    return isNaN(time) ? { date: { actual: inputValue } } : errors(time, inputValue)
+  }, ref)
+}
+
+/**
+ * Validator that requires the input's value to be a date before the provided one. See
+ * `Validators.dateBefore` for additional information.
+ */
+export function dateBeforeValidator(date: DateLike): ValidatorFn {
+  const before = toTime(date)
+
+  return dateValidator(
+    (time, actual) => (time < before ? null : { datebefore: { before: date, actual } }),
+    ['dateBefore', date]
+  )
+}
+
+/**
+ * Validator that requires the input's value to be a date after the provided one.
+ */
+export function dateAfterValidator(date: DateLike): ValidatorFn {
+  const after = toTime(date)
+
+  return dateValidator(
+    (time, actual) => (time > after ? null : { dateafter: { after: date, actual } }),
+    ['dateAfter', date]
+  )
 }
+
+/**
+ * Validator that requires the input's value to be a date within the provided range.
+ */
+export function dateBetweenValidator(start: DateLike, end: DateLike): ValidatorFn {
+  const [from, to] = [toTime(start), toTime(end)]
+
+  return dateValidator(
+    (time, actual) => (time >= from && time <= to ? null : { datebetween: { start, end, actual } }),
+    ['dateBetween', start, end]
+  )
+}
+
+/**
+ * Validator that requires the input's value to equal the value of a sibling field, comparing
+ * them by their JSON form. See `Validators.equalsPath`.
+ */
+export function equalsPathValidator(path: string): ValidatorFn {
+  return withRef(
+    (input: FieldValue, context?: MappingContext): ValidationErrors | null =>
+      !context || JSON.stringify(getFieldValue(input)) === JSON.stringify(get(context.target, path))
+        ? null
+        : { equalspath: { path } },
+    ['equalsPath', path]
+  )
+}
+
+/**
+ * Validator failing with `errorKey` when a predicate of the input's value returns false.
+ */
+export function customValidator(
+  predicate: (value: any, context?: MappingContext) => boolean,
+  errorKey: string
+): ValidatorFn {
+  return (input: FieldValue, context?: MappingContext): ValidationErrors | null =>
+    predicate(getFieldValue(input), context) ? null : { [errorKey]: true }
+}
+
+withRef(requiredValidator, 'required')
+withRef(Validators.required, 'required')
+withRef(requiredTrueValidator, 'requiredTrue')
+withRef(Validators.requiredTrue, 'requiredTrue')
+withRef(nullValidator, 'null')
+withRef(Validators.null, 'null')
+withRef(emailValidator, 'email')
+withRef(Validators.email, 'email')
+withRef(urlValidator, 'url')
+withRef(Validators.url, 'url')
+withRef(uuidValidator, 'uuid')
+withRef(Validators.uuid, 'uuid')
+withRef(integerValidator, 'integer')
+withRef(Validators.integer, 'integer')